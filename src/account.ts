@@ -1,8 +1,16 @@
 import * as vscode from "vscode"
 
-import {getApiKey, getPanelUrl, getServerId, setApiKey, setServerId} from "./config"
+import {getPanelUrl, getServerId, setServerId} from "./config"
 import type {createLogger} from "./logger"
-import {clearRuntimeState, type RuntimeState} from "./state"
+import type {ProfileStore} from "./profiles"
+import {
+	clearRuntimeState,
+	hydrateRuntimeState,
+	parseServerAuthority,
+	PTERODACTYL_SCHEME,
+	type RuntimeState,
+	toServerRootUri
+} from "./state"
 
 const ONBOARDING_SHOWN_KEY = "pterodactyl-vsc.onboardingShown"
 
@@ -21,6 +29,7 @@ const makeOnboardingMessage = (needsApiKey: boolean, needsServer: boolean): stri
 
 export const showOnboardingGuidance = async (
 	context: vscode.ExtensionContext,
+	profileStore: ProfileStore,
 	options?: {force?: boolean}
 ): Promise<void> => {
 	const force = options?.force ?? false
@@ -29,7 +38,8 @@ export const showOnboardingGuidance = async (
 		return
 	}
 
-	const apiKey = getApiKey()
+	const activeProfile = profileStore.getActiveProfile()
+	const apiKey = activeProfile ? await profileStore.getApiKey(activeProfile) : void 0
 	const serverId = getServerId()
 	const needsApiKey = !apiKey
 	const needsServer = Boolean(apiKey) && !serverId
@@ -48,7 +58,7 @@ export const showOnboardingGuidance = async (
 	if (selection === connectAction) {
 		void vscode.commands.executeCommand("pterodactyl-vsc.init")
 	} else if (selection === copyAction) {
-		await vscode.env.clipboard.writeText(getPanelUrl())
+		await vscode.env.clipboard.writeText(activeProfile?.panelUrl ?? getPanelUrl())
 		void vscode.window.showInformationMessage("Panel URL copied to clipboard")
 	}
 
@@ -57,9 +67,12 @@ export const showOnboardingGuidance = async (
 
 export const logoutOfVoidium = async (
 	state: RuntimeState,
-	log: ReturnType<typeof createLogger>
+	log: ReturnType<typeof createLogger>,
+	profileStore: ProfileStore
 ): Promise<void> => {
-	const hasCredentials = Boolean(getApiKey() || getServerId())
+	const activeProfile = profileStore.getActiveProfile()
+	const apiKey = activeProfile ? await profileStore.getApiKey(activeProfile) : void 0
+	const hasCredentials = Boolean(apiKey || getServerId())
 	if (!hasCredentials) {
 		void vscode.window.showInformationMessage("You're not signed in to Voidium Hosting.")
 		return
@@ -75,7 +88,11 @@ export const logoutOfVoidium = async (
 		return
 	}
 
-	await Promise.all([setApiKey(void 0), setServerId(void 0)])
+	await Promise.all([
+		activeProfile ? profileStore.setApiKey(activeProfile, void 0) : Promise.resolve(),
+		setServerId(void 0)
+	])
+	await hydrateRuntimeState(state, profileStore)
 	clearRuntimeState(state)
 	if (vscode.workspace.workspaceFolders?.length) {
 		vscode.workspace.updateWorkspaceFolders(0, vscode.workspace.workspaceFolders.length)
@@ -84,3 +101,98 @@ export const logoutOfVoidium = async (
 	log("Signed out of Voidium Hosting")
 	void vscode.window.showInformationMessage("Signed out of Voidium Hosting. Use Open Voidium Server to reconnect.")
 }
+
+/**
+ * Points the workspace folders of `profileName` at `newProfileName`, or removes
+ * them. Replaces the affected range in one call, as `updateWorkspaceFolders`
+ * ignores further calls until the previous one has been applied.
+ */
+const replaceProfileFolders = (profileName: string, newProfileName: string | undefined): void => {
+	const folders = vscode.workspace.workspaceFolders ?? []
+	const isAffected = (folder: vscode.WorkspaceFolder): boolean => folder.uri.scheme === PTERODACTYL_SCHEME && parseServerAuthority(folder.uri.authority)?.profile === profileName
+	const first = folders.findIndex(isAffected)
+	if (first === -1) {
+		return
+	}
+
+	const last = folders.length - 1 - [...folders].reverse().findIndex(isAffected)
+	const replacements: Array<{uri: vscode.Uri, name?: string}> = []
+	for (const folder of folders.slice(first, last + 1)) {
+		const authority = parseServerAuthority(folder.uri.authority)
+		if (!isAffected(folder) || !authority) {
+			replacements.push({uri: folder.uri, name: folder.name})
+		} else if (newProfileName) {
+			replacements.push({uri: toServerRootUri({serverId: authority.serverId, profile: newProfileName}), name: folder.name})
+		}
+	}
+	vscode.workspace.updateWorkspaceFolders(first, last - first + 1, ...replacements)
+}
+
+export const addPanelProfile = async (profileStore: ProfileStore, log: ReturnType<typeof createLogger>): Promise<void> => {
+	const profile = await profileStore.addProfile()
+	if (!profile) {
+		return
+	}
+
+	const switchAction = "Switch to profile"
+	const selection = await vscode.window.showInformationMessage(`Profile "${profile.name}" added.`, switchAction)
+	if (selection === switchAction) {
+		await profileStore.setActiveProfile(profile)
+		log(`Switched to profile "${profile.name}"`)
+	}
+}
+
+export const switchPanelProfile = async (profileStore: ProfileStore, log: ReturnType<typeof createLogger>): Promise<void> => {
+	if (profileStore.getProfiles().length === 0) {
+		void vscode.window.showInformationMessage("No panel profiles yet. Add one first.")
+		return
+	}
+
+	const profile = await profileStore.pickProfile("Select the panel profile to use")
+	if (!profile) {
+		return
+	}
+
+	await profileStore.setActiveProfile(profile)
+	log(`Switched to profile "${profile.name}"`)
+	const openAction = "Open server"
+	const selection = await vscode.window.showInformationMessage(`Now using profile "${profile.name}" (${profile.panelUrl}).`, openAction)
+	if (selection === openAction) {
+		void vscode.commands.executeCommand("pterodactyl-vsc.init")
+	}
+}
+
+export const renamePanelProfile = async (profileStore: ProfileStore, log: ReturnType<typeof createLogger>): Promise<void> => {
+	const profile = await profileStore.pickProfile("Select the panel profile to rename")
+	if (!profile) {
+		return
+	}
+
+	const renamed = await profileStore.renameProfile(profile)
+	if (!renamed) {
+		return
+	}
+
+	replaceProfileFolders(profile.name, renamed.name)
+	log(`Renamed profile "${profile.name}" to "${renamed.name}"`)
+}
+
+export const deletePanelProfile = async (profileStore: ProfileStore, log: ReturnType<typeof createLogger>): Promise<void> => {
+	const profile = await profileStore.pickProfile("Select the panel profile to delete")
+	if (!profile) {
+		return
+	}
+
+	const confirmation = await vscode.window.showWarningMessage(
+		`Delete profile "${profile.name}" and its stored API key? Servers opened through it will be removed from the workspace.`,
+		{modal: true},
+		"Delete"
+	)
+	if (confirmation !== "Delete") {
+		return
+	}
+
+	await profileStore.deleteProfile(profile)
+	replaceProfileFolders(profile.name, void 0)
+	log(`Deleted profile "${profile.name}"`)
+}
@@ -0,0 +1,241 @@
+import * as vscode from "vscode"
+
+import {requestServerApi} from "./api"
+import type {PterodactylApiClient} from "./client"
+import {formatDate} from "./format"
+import type {createLogger} from "./logger"
+import {getActiveServerUri, resolveConnection, type RuntimeState} from "./state"
+
+const PAGE_SIZE = 25
+const FILTER_PRESETS = ["file:", "server:power", "server:console", "backup:", "database:", "user:", "schedule:"]
+
+type ActivityProperties = Record<string, unknown>
+
+interface ActivityAttributes {
+	id: string
+	event: string
+	is_api: boolean
+	ip: string | null
+	description: string | null
+	properties: ActivityProperties
+	timestamp: string
+	relationships?: {
+		actor?: {
+			attributes: {
+				username: string
+				email: string
+			}
+		} | null
+	}
+}
+
+interface ActivityListResponse {
+	data: Array<{attributes: ActivityAttributes}>
+	meta: {
+		pagination: {
+			current_page: number
+			total_pages: number
+		}
+	}
+}
+
+interface ActivityLogDependencies {
+	state: RuntimeState
+	log: ReturnType<typeof createLogger>
+	client: PterodactylApiClient
+}
+
+const joinServerPath = (...segments: string[]): string => `/${segments.map(segment => segment.replace(/^\/+|\/+$/g, "")).filter(Boolean).join("/")}`
+
+/**
+ * Extracts the file paths an event refers to, from the property shapes the
+ * panel logs: `file`, `directory` + `name`, and `directory` + `files` (names or
+ * `{from, to}` renames, where the new name is the one that still exists).
+ */
+const getEventPaths = (properties: ActivityProperties): string[] => {
+	const directory = typeof properties.directory === "string" ? properties.directory : ""
+	const paths: string[] = []
+	if (typeof properties.file === "string") {
+		paths.push(joinServerPath(directory, properties.file))
+	}
+	if (typeof properties.name === "string" && directory) {
+		paths.push(joinServerPath(directory, properties.name))
+	}
+	if (Array.isArray(properties.files)) {
+		for (const file of properties.files as unknown[]) {
+			if (typeof file === "string") {
+				paths.push(joinServerPath(directory, file))
+			} else if (file && typeof (file as {to?: unknown}).to === "string") {
+				paths.push(joinServerPath(directory, (file as {to: string}).to))
+			}
+		}
+	}
+	return paths
+}
+
+export class ActivityFileTreeItem extends vscode.TreeItem {
+	public readonly fileUri: vscode.Uri
+
+	public constructor(fileUri: vscode.Uri, id: string) {
+		super(fileUri.path, vscode.TreeItemCollapsibleState.None)
+		this.fileUri = fileUri
+		this.id = id
+		this.resourceUri = fileUri
+		this.contextValue = "activityFile"
+		this.command = {command: "pterodactyl-vsc.openActivityFile", title: "Open File", arguments: [this]}
+	}
+}
+
+export class ActivityEventTreeItem extends vscode.TreeItem {
+	public readonly fileUri: vscode.Uri | undefined
+	public readonly files: ActivityFileTreeItem[]
+
+	public constructor(public readonly activity: ActivityAttributes, serverUri: vscode.Uri) {
+		const paths = activity.event.startsWith("file:") ? getEventPaths(activity.properties) : []
+		super(activity.event, paths.length > 1 ? vscode.TreeItemCollapsibleState.Collapsed : vscode.TreeItemCollapsibleState.None)
+		const actor = activity.relationships?.actor?.attributes.username ?? "System"
+		this.id = `activity-${serverUri.authority}-${activity.id}`
+		this.files = paths.map((path, index) => new ActivityFileTreeItem(serverUri.with({path}), `${this.id}-${index}`))
+		this.fileUri = paths.length === 1 ? this.files[0].fileUri : void 0
+		this.contextValue = this.fileUri ? "activityEvent.file" : "activityEvent"
+		this.description = `${actor} · ${formatDate(activity.timestamp)}`
+		this.iconPath = new vscode.ThemeIcon(activity.is_api ? "plug" : "history")
+		this.tooltip = [
+			activity.event,
+			`Actor: ${actor}${activity.is_api ? " (API)" : ""}`,
+			`Time: ${formatDate(activity.timestamp)}`,
+			`IP: ${activity.ip ?? "unknown"}`,
+			Object.keys(activity.properties).length > 0 ? `Properties: ${JSON.stringify(activity.properties, void 0, 2)}` : ""
+		].filter(Boolean).join("\n")
+	}
+}
+
+export class LoadMoreActivityTreeItem extends vscode.TreeItem {
+	public constructor() {
+		super("Load more...", vscode.TreeItemCollapsibleState.None)
+		this.iconPath = new vscode.ThemeIcon("ellipsis")
+		this.command = {command: "pterodactyl-vsc.loadMoreActivity", title: "Load More Activity"}
+	}
+}
+
+type ActivityTreeNode = ActivityEventTreeItem | ActivityFileTreeItem | LoadMoreActivityTreeItem
+
+export class ActivityLog implements vscode.TreeDataProvider<ActivityTreeNode> {
+	private readonly eventEmitter = new vscode.EventEmitter<ActivityTreeNode | undefined | null | void>()
+	private readonly state: RuntimeState
+	private readonly log: ReturnType<typeof createLogger>
+	private readonly client: PterodactylApiClient
+	private events: ActivityEventTreeItem[] = []
+	private loadedPages = 0
+	private totalPages = 1
+	private filter = ""
+	private view: vscode.TreeView<ActivityTreeNode> | undefined
+
+	public readonly onDidChangeTreeData = this.eventEmitter.event
+
+	public constructor(deps: ActivityLogDependencies) {
+		this.state = deps.state
+		this.log = deps.log
+		this.client = deps.client
+	}
+
+	public setView(view: vscode.TreeView<ActivityTreeNode>): void {
+		this.view = view
+		this.updateDescription()
+	}
+
+	public getTreeItem(element: ActivityTreeNode): vscode.TreeItem {
+		return element
+	}
+
+	public async getChildren(element?: ActivityTreeNode): Promise<ActivityTreeNode[]> {
+		if (element) {
+			return element instanceof ActivityEventTreeItem && element.files.length > 1 ? element.files : []
+		}
+
+		if (this.loadedPages === 0) {
+			await this.loadPage(1)
+		}
+		return this.loadedPages < this.totalPages ? [...this.events, new LoadMoreActivityTreeItem()] : this.events
+	}
+
+	public refresh(): void {
+		this.events = []
+		this.loadedPages = 0
+		this.totalPages = 1
+		this.eventEmitter.fire()
+	}
+
+	public async loadMore(): Promise<void> {
+		await this.loadPage(this.loadedPages + 1)
+		this.eventEmitter.fire()
+	}
+
+	public async setFilter(): Promise<void> {
+		const customAction = "Custom prefix..."
+		const selection = await vscode.window.showQuickPick(
+			[
+				{label: "All events", prefix: ""},
+				...FILTER_PRESETS.map(prefix => ({label: prefix, prefix, description: prefix === this.filter ? "Current filter" : void 0})),
+				{label: customAction, prefix: void 0}
+			],
+			{placeHolder: "Filter activity by event prefix"}
+		)
+		if (!selection) {
+			return
+		}
+
+		const prefix = selection.prefix ?? await vscode.window.showInputBox({prompt: "Event prefix", placeHolder: "e.g. file:write", value: this.filter})
+		if (prefix === void 0) {
+			return
+		}
+
+		this.filter = prefix.trim()
+		this.updateDescription()
+		this.refresh()
+	}
+
+	public async openFile(item: ActivityEventTreeItem | ActivityFileTreeItem): Promise<void> {
+		if (!item.fileUri) {
+			return
+		}
+
+		try {
+			await vscode.commands.executeCommand("vscode.open", item.fileUri)
+		} catch (error) {
+			void vscode.window.showErrorMessage(`Failed to open ${item.fileUri.path}: ${error instanceof Error ? error.message : String(error)}`)
+		}
+	}
+
+	private async loadPage(page: number): Promise<void> {
+		const serverUri = getActiveServerUri()
+		const connection = resolveConnection(this.state, serverUri)
+		if (!connection.serverApiUrl || !connection.authHeader) {
+			return
+		}
+
+		const query = new globalThis.URLSearchParams({page: String(page), per_page: String(PAGE_SIZE), include: "actor"})
+		if (this.filter) {
+			query.set("filter[event]", this.filter)
+		}
+
+		try {
+			const response = await requestServerApi(this.client, connection, `/activity?${query.toString()}`)
+			const json = await response.json() as ActivityListResponse
+			const events = json.data
+				.map(activity => new ActivityEventTreeItem(activity.attributes, serverUri))
+				.filter(item => !this.filter || item.activity.event.startsWith(this.filter))
+			this.events = page === 1 ? events : [...this.events, ...events]
+			this.loadedPages = json.meta.pagination.current_page
+			this.totalPages = json.meta.pagination.total_pages
+		} catch (error) {
+			this.log(`Failed to load activity: ${String(error)}`)
+		}
+	}
+
+	private updateDescription(): void {
+		if (this.view) {
+			this.view.description = this.filter ? `Filter: ${this.filter}` : void 0
+		}
+	}
+}
@@ -0,0 +1,101 @@
+import * as vscode from "vscode"
+
+import type {PterodactylApiClient} from "./client"
+import {toClientApiUrl, toServerBaseUrl} from "./config"
+import type {createLogger} from "./logger"
+import {resolveConnection, type RuntimeState, type ServerConnection} from "./state"
+
+interface PanelErrorResponse {
+	errors: Array<{
+		detail: string
+	}>
+}
+
+export interface ServerApiRequestOptions {
+	method?: string
+	body?: unknown
+}
+
+export type ServerTask = Parameters<typeof vscode.window.withProgress<void>>[1]
+
+export interface ServerTaskOptions {
+	log: ReturnType<typeof createLogger>
+	cancellable?: boolean
+	/** Runs once the task settled, successfully or not, e.g. to refresh the view it changed. */
+	onSettled?: () => void
+}
+
+export const wait = (milliseconds: number): Promise<void> => new Promise<void>(resolve => {
+	setTimeout(resolve, milliseconds)
+})
+
+const request = async (
+	client: PterodactylApiClient,
+	connection: ServerConnection,
+	url: string,
+	options: ServerApiRequestOptions
+): Promise<Response> => {
+	if (!connection.serverApiUrl || !connection.authHeader) {
+		throw new Error("No server connected")
+	}
+
+	const response = await client.request(url, {
+		method: options.method,
+		headers: {
+			Authorization: connection.authHeader,
+			Accept: "application/json",
+			"Content-Type": "application/json"
+		},
+		body: options.body === void 0 ? void 0 : JSON.stringify(options.body),
+		proxyBase: connection.proxyBase
+	})
+
+	if (!response.ok) {
+		const text = await response.text()
+		let detail = `Request failed with ${response.status}`
+		try {
+			detail = (JSON.parse(text) as PanelErrorResponse).errors[0]?.detail ?? detail
+		} catch {}
+		throw new Error(detail)
+	}
+	return response
+}
+
+export const requestServerApi = (
+	client: PterodactylApiClient,
+	connection: ServerConnection,
+	path: string,
+	options: ServerApiRequestOptions = {}
+): Promise<Response> => request(client, connection, `${toServerBaseUrl(connection.serverApiUrl)}${path}`, options)
+
+/** Requests a panel-wide endpoint below `/api/client`, such as `/permissions`. */
+export const requestClientApi = (
+	client: PterodactylApiClient,
+	connection: ServerConnection,
+	path: string,
+	options: ServerApiRequestOptions = {}
+): Promise<Response> => request(client, connection, `${toClientApiUrl(connection.serverApiUrl)}${path}`, options)
+
+/** Requests a server endpoint with the connection of the server `serverUri` belongs to. */
+export const requestServerApiAt = (
+	client: PterodactylApiClient,
+	state: RuntimeState,
+	serverUri: vscode.Uri,
+	path: string,
+	options: ServerApiRequestOptions = {}
+): Promise<Response> => requestServerApi(client, resolveConnection(state, serverUri), path, options)
+
+/**
+ * Runs `task` behind a progress notification. A failure is logged and shown as
+ * "<title> failed: <reason>" instead of being rethrown.
+ */
+export const runServerTask = async (title: string, options: ServerTaskOptions, task: ServerTask): Promise<void> => {
+	try {
+		await vscode.window.withProgress({location: vscode.ProgressLocation.Notification, title, cancellable: options.cancellable}, task)
+	} catch (error) {
+		options.log(`${title} failed: ${String(error)}`)
+		void vscode.window.showErrorMessage(`${title} failed: ${error instanceof Error ? error.message : String(error)}`)
+	} finally {
+		options.onSettled?.()
+	}
+}
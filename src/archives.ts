@@ -0,0 +1,63 @@
+import * as vscode from "vscode"
+
+import {runServerTask, type ServerTaskOptions} from "./api"
+import type {PterodactylFileSystemProvider} from "./fsProvider"
+import type {createLogger} from "./logger"
+
+/** Archive formats Wings can extract. */
+const ARCHIVE_NAME_PATTERN = /\.(zip|rar|7z|tar|tgz|tbz2?|txz|tzst|gz|bz2|xz|zst|lz4|br|sz)$/i
+
+export const isArchiveName = (name: string): boolean => ARCHIVE_NAME_PATTERN.test(name)
+
+interface ArchiveCommandsDependencies {
+	fsProvider: PterodactylFileSystemProvider
+	log: ReturnType<typeof createLogger>
+}
+
+const parentPath = (path: string): string => path.split("/").slice(0, -1).join("/") || "/"
+
+export class ArchiveCommands {
+	private readonly fsProvider: PterodactylFileSystemProvider
+	private readonly log: ReturnType<typeof createLogger>
+	private readonly taskOptions: ServerTaskOptions
+
+	public constructor(deps: ArchiveCommandsDependencies) {
+		this.fsProvider = deps.fsProvider
+		this.log = deps.log
+		this.taskOptions = {log: deps.log}
+	}
+
+	public async compress(uris: vscode.Uri[]): Promise<void> {
+		if (uris.length === 0) {
+			return
+		}
+
+		const directory = uris[0].with({path: parentPath(uris[0].path)})
+		const sameDirectory = uris.every(uri => uri.path !== "/" && uri.authority === directory.authority && parentPath(uri.path) === directory.path)
+		if (!sameDirectory) {
+			void vscode.window.showErrorMessage("Only files and folders from the same directory can be compressed together.")
+			return
+		}
+
+		const names = uris.map(uri => uri.path.split("/").pop() ?? "")
+		const title = names.length === 1 ? `Compressing "${names[0]}"` : `Compressing ${names.length} items`
+		await runServerTask(title, this.taskOptions, async () => {
+			const archive = await this.fsProvider.compress(directory, names)
+			void vscode.window.showInformationMessage(`Created archive "${archive.name}"`)
+		})
+	}
+
+	public async extract(uris: vscode.Uri[]): Promise<void> {
+		const archives = uris.filter(uri => isArchiveName(uri.path))
+		if (archives.length < uris.length) {
+			void vscode.window.showWarningMessage("Skipping items that are not archives the panel can extract.")
+		}
+
+		for (const uri of archives) {
+			const name = uri.path.split("/").pop() ?? uri.path
+			await runServerTask(`Extracting "${name}"`, this.taskOptions, async () => {
+				await this.fsProvider.decompress(uri)
+			})
+		}
+	}
+}
@@ -0,0 +1,245 @@
+import * as vscode from "vscode"
+
+import {requestServerApiAt, runServerTask, type ServerTaskOptions, wait} from "./api"
+import type {PterodactylApiClient} from "./client"
+import {formatBytes, formatDate} from "./format"
+import type {createLogger} from "./logger"
+import {getActiveServerUri, resolveConnection, type RuntimeState} from "./state"
+
+const POLL_INTERVAL_MS = 2000
+
+interface BackupAttributes {
+	uuid: string
+	name: string
+	ignored_files: string[]
+	checksum: string | null
+	bytes: number
+	is_successful: boolean
+	is_locked: boolean
+	created_at: string
+	completed_at: string | null
+}
+
+interface BackupResponse {
+	attributes: BackupAttributes
+}
+
+interface BackupListResponse {
+	data: BackupResponse[]
+}
+
+interface BackupDownloadResponse {
+	attributes: {
+		url: string
+	}
+}
+
+interface ServerDetailsResponse {
+	attributes: {
+		status: string | null
+	}
+}
+
+interface BackupManagerDependencies {
+	state: RuntimeState
+	log: ReturnType<typeof createLogger>
+	client: PterodactylApiClient
+}
+
+export class BackupTreeItem extends vscode.TreeItem {
+	public readonly serverUri: vscode.Uri
+
+	public constructor(public readonly backup: BackupAttributes, serverUri: vscode.Uri) {
+		super(backup.name, vscode.TreeItemCollapsibleState.None)
+		this.serverUri = serverUri
+		this.id = backup.uuid
+		this.contextValue = backup.is_locked ? "backupLocked" : "backup"
+		this.description = backup.completed_at ? `${formatBytes(backup.bytes)} · ${formatDate(backup.completed_at)}` : "In progress..."
+		this.iconPath = new vscode.ThemeIcon(this.getIconId())
+		this.tooltip = [
+			backup.name,
+			`Size: ${formatBytes(backup.bytes)}`,
+			`Checksum: ${backup.checksum ?? "pending"}`,
+			`Locked: ${backup.is_locked ? "yes" : "no"}`,
+			`Created: ${formatDate(backup.created_at)}`,
+			`Completed: ${formatDate(backup.completed_at)}`,
+			backup.ignored_files.length > 0 ? `Ignored: ${backup.ignored_files.join(", ")}` : ""
+		].filter(Boolean).join("\n")
+	}
+
+	private getIconId(): string {
+		if (!this.backup.completed_at) {
+			return "loading~spin"
+		}
+		if (!this.backup.is_successful) {
+			return "error"
+		}
+		return this.backup.is_locked ? "lock" : "archive"
+	}
+}
+
+export class BackupManager implements vscode.TreeDataProvider<BackupTreeItem> {
+	private readonly eventEmitter = new vscode.EventEmitter<BackupTreeItem | undefined | null | void>()
+	private readonly state: RuntimeState
+	private readonly log: ReturnType<typeof createLogger>
+	private readonly taskOptions: ServerTaskOptions
+	private readonly client: PterodactylApiClient
+
+	public readonly onDidChangeTreeData = this.eventEmitter.event
+
+	public constructor(deps: BackupManagerDependencies) {
+		this.state = deps.state
+		this.log = deps.log
+		this.client = deps.client
+		this.taskOptions = {
+			log: deps.log,
+			cancellable: true,
+			onSettled: () => {
+				this.refresh()
+			}
+		}
+	}
+
+	public getTreeItem(element: BackupTreeItem): vscode.TreeItem {
+		return element
+	}
+
+	public async getChildren(element?: BackupTreeItem): Promise<BackupTreeItem[]> {
+		const serverUri = getActiveServerUri()
+		const connection = resolveConnection(this.state, serverUri)
+		if (element || !connection.serverApiUrl || !connection.authHeader) {
+			return []
+		}
+
+		try {
+			const response = await requestServerApiAt(this.client, this.state, serverUri, "/backups")
+			const json = await response.json() as BackupListResponse
+			return json.data.map(backup => new BackupTreeItem(backup.attributes, serverUri))
+		} catch (error) {
+			this.log(`Failed to list backups: ${String(error)}`)
+			return []
+		}
+	}
+
+	public refresh(): void {
+		this.eventEmitter.fire()
+	}
+
+	public async createBackup(serverUri: vscode.Uri = getActiveServerUri()): Promise<void> {
+		const name = await vscode.window.showInputBox({
+			prompt: "Backup name",
+			placeHolder: "Leave empty to let the panel generate a name"
+		})
+		if (name === void 0) {
+			return
+		}
+
+		const ignored = await vscode.window.showInputBox({
+			prompt: "Files to ignore (comma separated, optional)",
+			placeHolder: "logs, cache/*.tmp"
+		})
+		if (ignored === void 0) {
+			return
+		}
+
+		const lockSelection = await vscode.window.showQuickPick(["Unlocked", "Locked"], {placeHolder: "Lock the backup against deletion?"})
+		if (!lockSelection) {
+			return
+		}
+
+		await runServerTask("Creating backup", this.taskOptions, async (progress, token) => {
+			const response = await requestServerApiAt(this.client, this.state, serverUri, "/backups", {
+				method: "POST",
+				body: {
+					name: name.trim() || void 0,
+					ignored: ignored.split(",").map(entry => entry.trim()).filter(Boolean).join("\n"),
+					is_locked: lockSelection === "Locked"
+				}
+			})
+			const created = await response.json() as BackupResponse
+			this.refresh()
+
+			const backup = await this.waitForBackup(serverUri, created.attributes.uuid, progress, token)
+			if (!backup) {
+				return
+			}
+			if (backup.is_successful) {
+				void vscode.window.showInformationMessage(`Backup "${backup.name}" completed (${formatBytes(backup.bytes)})`)
+			} else {
+				void vscode.window.showErrorMessage(`Backup "${backup.name}" failed`)
+			}
+		})
+	}
+
+	public async restoreBackup(item: BackupTreeItem): Promise<void> {
+		const restoreAction = "Restore"
+		const truncateAction = "Delete all files and restore"
+		const selection = await vscode.window.showWarningMessage(
+			`Restore the server from backup "${item.backup.name}"? The server will be stopped during the restore.`,
+			{modal: true},
+			restoreAction,
+			truncateAction
+		)
+		if (!selection) {
+			return
+		}
+
+		await runServerTask(`Restoring backup "${item.backup.name}"`, this.taskOptions, async (progress, token) => {
+			await requestServerApiAt(this.client, this.state, item.serverUri, `/backups/${item.backup.uuid}/restore`, {
+				method: "POST",
+				body: {truncate: selection === truncateAction}
+			})
+
+			progress.report({message: "Waiting for the daemon..."})
+			while (!token.isCancellationRequested) {
+				await wait(POLL_INTERVAL_MS)
+				const response = await requestServerApiAt(this.client, this.state, item.serverUri, "")
+				const json = await response.json() as ServerDetailsResponse
+				if (json.attributes.status !== "restoring_backup") {
+					void vscode.window.showInformationMessage(`Backup "${item.backup.name}" restored`)
+					return
+				}
+			}
+		})
+	}
+
+	public async deleteBackup(item: BackupTreeItem): Promise<void> {
+		const confirmation = await vscode.window.showWarningMessage(`Delete backup "${item.backup.name}"? This cannot be undone.`, {modal: true}, "Delete")
+		if (confirmation !== "Delete") {
+			return
+		}
+
+		await runServerTask(`Deleting backup "${item.backup.name}"`, this.taskOptions, async () => {
+			await requestServerApiAt(this.client, this.state, item.serverUri, `/backups/${item.backup.uuid}`, {method: "DELETE"})
+		})
+	}
+
+	public async toggleLock(item: BackupTreeItem): Promise<void> {
+		await runServerTask(`${item.backup.is_locked ? "Unlocking" : "Locking"} backup "${item.backup.name}"`, this.taskOptions, async () => {
+			await requestServerApiAt(this.client, this.state, item.serverUri, `/backups/${item.backup.uuid}/lock`, {method: "POST"})
+		})
+	}
+
+	public async downloadBackup(item: BackupTreeItem): Promise<void> {
+		try {
+			const response = await requestServerApiAt(this.client, this.state, item.serverUri, `/backups/${item.backup.uuid}/download`)
+			const json = await response.json() as BackupDownloadResponse
+			await vscode.env.openExternal(vscode.Uri.parse(json.attributes.url))
+		} catch (error) {
+			void vscode.window.showErrorMessage(`Failed to download backup: ${String(error)}`)
+		}
+	}
+
+	private async waitForBackup(serverUri: vscode.Uri, uuid: string, progress: vscode.Progress<{message?: string}>, token: vscode.CancellationToken): Promise<BackupAttributes | undefined> {
+		while (!token.isCancellationRequested) {
+			await wait(POLL_INTERVAL_MS)
+			const response = await requestServerApiAt(this.client, this.state, serverUri, `/backups/${uuid}`)
+			const json = await response.json() as BackupResponse
+			if (json.attributes.completed_at) {
+				return json.attributes
+			}
+			progress.report({message: "Waiting for the daemon to finish..."})
+		}
+		return void 0
+	}
+}
@@ -0,0 +1,212 @@
+import * as vscode from "vscode"
+
+import {runServerTask, type ServerTaskOptions} from "./api"
+import type {PterodactylFileSystemProvider} from "./fsProvider"
+import type {createLogger} from "./logger"
+
+interface BatchCommandsDependencies {
+	fsProvider: PterodactylFileSystemProvider
+	log: ReturnType<typeof createLogger>
+}
+
+interface PreviewQuickPickItem<T> extends vscode.QuickPickItem {
+	value: T
+}
+
+interface Rename {
+	from: vscode.Uri
+	to: vscode.Uri
+}
+
+const parentPath = (path: string): string => path.split("/").slice(0, -1).join("/") || "/"
+
+const baseName = (uri: vscode.Uri): string => uri.path.split("/").pop() ?? uri.path
+
+/**
+ * Compiles a rename pattern such as `*.yml.bak` into a regular expression that
+ * captures what each `*` matched, so `*.yml` can put it back.
+ */
+const compileRenamePattern = (pattern: string): RegExp => new RegExp(`^${pattern.split("*").map(part => part.replace(/[$()+.?[\\\]^{|}]/g, "\\$&")).join("(.*)")}$`)
+
+const applyRenamePattern = (name: string, from: RegExp, to: string): string | undefined => {
+	const match = from.exec(name)
+	if (!match) {
+		return void 0
+	}
+
+	let index = 0
+	return to.replace(/\*/g, () => {
+		index += 1
+		return match[index] ?? ""
+	})
+}
+
+/**
+ * Commands for multi-selections in the tree and the explorer. Each previews the
+ * affected entries in a quick pick and then sends a single batched request.
+ */
+export class BatchCommands {
+	private readonly fsProvider: PterodactylFileSystemProvider
+	private readonly log: ReturnType<typeof createLogger>
+	private readonly taskOptions: ServerTaskOptions
+
+	public constructor(deps: BatchCommandsDependencies) {
+		this.fsProvider = deps.fsProvider
+		this.log = deps.log
+		this.taskOptions = {log: deps.log}
+	}
+
+	public async deleteItems(uris: vscode.Uri[]): Promise<void> {
+		const targets = uris.filter(uri => uri.path !== "/")
+		const selection = await this.preview(
+			`Delete ${targets.length} item(s)`,
+			targets.map(uri => ({label: `$(trash) ${baseName(uri)}`, description: parentPath(uri.path), value: uri}))
+		)
+		if (!selection) {
+			return
+		}
+
+		await runServerTask(`Deleting ${selection.length} item(s)`, this.taskOptions, async () => {
+			await this.fsProvider.deleteMany(selection)
+			this.fsProvider.notifyChanges(selection.map(uri => ({type: vscode.FileChangeType.Deleted, uri})))
+		})
+	}
+
+	public async moveItems(uris: vscode.Uri[]): Promise<void> {
+		// Descendants of other selected items move along with them
+		const selected = uris.filter(uri => uri.path !== "/")
+		const sources = selected.filter(uri => !selected.some(other => other.authority === uri.authority && uri.path.startsWith(`${other.path.replace(/\/$/, "")}/`)))
+		if (!this.isSingleServer(sources)) {
+			return
+		}
+
+		const path = await vscode.window.showInputBox({
+			prompt: "Move the selected items to folder",
+			value: parentPath(sources[0].path),
+			validateInput: (value: string): string | undefined => value.trim().startsWith("/") ? void 0 : "Enter an absolute path, e.g. /plugins"
+		})
+		if (!path) {
+			return
+		}
+
+		const directory = sources[0].with({path: path.trim().replace(/(.)\/+$/, "$1")})
+		const renames = sources
+			.filter(uri => parentPath(uri.path) !== directory.path && directory.path !== uri.path && !directory.path.startsWith(`${uri.path}/`))
+			.map(uri => ({from: uri, to: vscode.Uri.joinPath(directory, baseName(uri))}))
+		await this.renameItems(`Move ${renames.length} item(s) to ${directory.path}`, `Moving items to ${directory.path}`, renames)
+	}
+
+	public async renameByPattern(uris: vscode.Uri[]): Promise<void> {
+		const sources = uris.filter(uri => uri.path !== "/")
+		if (!this.isSingleServer(sources)) {
+			return
+		}
+
+		const from = await vscode.window.showInputBox({
+			prompt: "Rename names matching this pattern, where * matches any text",
+			placeHolder: "*.yml.bak",
+			validateInput: (value: string): string | undefined => value.trim() && !value.includes("/") ? void 0 : "Enter a name pattern without slashes"
+		})
+		if (!from) {
+			return
+		}
+
+		const to = await vscode.window.showInputBox({
+			prompt: `Rename "${from.trim()}" to this pattern, where each * is replaced by the text it matched`,
+			placeHolder: "*.yml",
+			validateInput: (value: string): string | undefined => value.trim() && !value.includes("/") ? void 0 : "Enter a name pattern without slashes"
+		})
+		if (!to) {
+			return
+		}
+
+		const pattern = compileRenamePattern(from.trim())
+		const renames: Rename[] = []
+		for (const uri of sources) {
+			const name = applyRenamePattern(baseName(uri), pattern, to.trim())
+			if (name && name !== baseName(uri)) {
+				renames.push({from: uri, to: vscode.Uri.joinPath(uri.with({path: parentPath(uri.path)}), name)})
+			}
+		}
+		if (renames.length === 0) {
+			void vscode.window.showInformationMessage(`None of the selected items match "${from.trim()}".`)
+			return
+		}
+
+		await this.renameItems(`Rename ${renames.length} item(s)`, "Renaming items", renames)
+	}
+
+	/** Previews `renames`, skipping those whose destination already exists, and sends them as one request. */
+	private async renameItems(title: string, progressTitle: string, renames: Rename[]): Promise<void> {
+		const available: Rename[] = []
+		const skipped: string[] = []
+		const existingByDirectory = new Map<string, Set<string>>()
+		const claimed = new Set<string>()
+		for (const rename of renames) {
+			const directory = rename.to.with({path: parentPath(rename.to.path)})
+			let existing = existingByDirectory.get(directory.toString())
+			if (!existing) {
+				try {
+					existing = new Set((await this.fsProvider.listDirectory(directory, true)).map(file => file.name))
+				} catch (error) {
+					this.log(`Failed to list ${directory.path} before renaming: ${String(error)}`)
+					existing = new Set()
+				}
+				existingByDirectory.set(directory.toString(), existing)
+			}
+
+			if (existing.has(baseName(rename.to)) || claimed.has(rename.to.path)) {
+				skipped.push(baseName(rename.from))
+			} else {
+				claimed.add(rename.to.path)
+				available.push(rename)
+			}
+		}
+		if (skipped.length > 0) {
+			void vscode.window.showWarningMessage(`Skipping ${skipped.join(", ")}: the new name already exists.`)
+		}
+
+		const selection = await this.preview(title, available.map(rename => ({
+			label: `${baseName(rename.from)} → ${baseName(rename.to)}`,
+			description: parentPath(rename.from.path) === parentPath(rename.to.path) ? parentPath(rename.from.path) : `${parentPath(rename.from.path)} → ${parentPath(rename.to.path)}`,
+			value: rename
+		})))
+		if (!selection) {
+			return
+		}
+
+		await runServerTask(progressTitle, this.taskOptions, async () => {
+			await this.fsProvider.renameMany(selection)
+			this.fsProvider.notifyChanges(selection.flatMap(({from, to}) => [
+				{type: vscode.FileChangeType.Deleted, uri: from},
+				{type: vscode.FileChangeType.Created, uri: to}
+			]))
+		})
+	}
+
+	/** Shows the entries a command affects, all checked, and resolves to those still checked. */
+	private async preview<T>(title: string, items: Array<PreviewQuickPickItem<T>>): Promise<T[] | undefined> {
+		if (items.length === 0) {
+			void vscode.window.showInformationMessage("Nothing to do for the selected items.")
+			return void 0
+		}
+
+		const selection = await vscode.window.showQuickPick(items.map(item => ({...item, picked: true})), {
+			title,
+			canPickMany: true,
+			placeHolder: "Uncheck the entries to skip, then press Enter to continue"
+		})
+		return selection && selection.length > 0 ? selection.map(item => item.value) : void 0
+	}
+
+	private isSingleServer(uris: vscode.Uri[]): boolean {
+		if (uris.length === 0) {
+			return false
+		}
+		if (uris.some(uri => uri.authority !== uris[0].authority)) {
+			void vscode.window.showErrorMessage("Only items from the same server can be moved or renamed together.")
+			return false
+		}
+		return true
+	}
+}
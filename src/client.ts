@@ -0,0 +1,248 @@
+import * as vscode from "vscode"
+
+import {wait} from "./api"
+import {proxyUrl} from "./config"
+import type {createLogger} from "./logger"
+
+const DEFAULT_MAX_CONCURRENT_REQUESTS = 4
+const DEFAULT_TIMEOUT_SECONDS = 30
+const DEFAULT_THROTTLE_MS = 5000
+const MAX_ATTEMPTS = 4
+const BASE_BACKOFF_MS = 250
+const MAX_BACKOFF_MS = 10_000
+const METRICS_INTERVAL_MS = 60_000
+const IDEMPOTENT_METHODS = new Set(["GET", "HEAD", "OPTIONS"])
+/**
+ * Statuses worth another attempt. 429 is retried for every method, as the panel rejected the request before handling it,
+ * the others only for idempotent requests.
+ */
+const RETRYABLE_STATUSES = new Set([429, 500, 502, 503, 504])
+
+type FetchInit = NonNullable<Parameters<typeof fetch>[1]>
+
+export interface ApiRequestInit {
+	method?: string
+	headers?: Record<string, string>
+	body?: FetchInit["body"]
+	/** Aborts the request, including a response body that is still streaming. */
+	signal?: FetchInit["signal"]
+	proxyBase?: string
+	/** Retries failed requests even though the method is not idempotent, for endpoints such as `/files/write`. */
+	retry?: boolean
+	/** Milliseconds to wait for the response headers, `0` to wait indefinitely. Defaults to the `api.requestTimeoutSeconds` setting. */
+	timeoutMs?: number
+}
+
+export interface ApiClientMetrics {
+	queued: number
+	inFlight: number
+	throttled: number
+	retried: number
+	timedOut: number
+	completed: number
+}
+
+interface ApiClientDependencies {
+	log: ReturnType<typeof createLogger>
+}
+
+const getApiSetting = (setting: string, defaultValue: number): number => vscode.workspace.getConfiguration("pterodactyl-vsc").get<number>(`api.${setting}`) ?? defaultValue
+
+/** Parses `Retry-After`, which is either a number of seconds or an HTTP date, into milliseconds. */
+const parseRetryAfter = (value: string | null): number | undefined => {
+	if (!value) {
+		return void 0
+	}
+
+	const seconds = Number(value)
+	const milliseconds = Number.isFinite(seconds) ? seconds * 1000 : Date.parse(value) - Date.now()
+	return Number.isFinite(milliseconds) ? Math.max(0, milliseconds) : void 0
+}
+
+/** Parses `X-RateLimit-Reset`, a Unix timestamp in seconds, into milliseconds from now. */
+const parseRateLimitReset = (value: string | null): number | undefined => {
+	const timestamp = Number(value ?? Number.NaN)
+	return Number.isFinite(timestamp) ? Math.max(0, timestamp * 1000 - Date.now()) : void 0
+}
+
+const getBackoffMs = (attempt: number): number => Math.random() * Math.min(MAX_BACKOFF_MS, BASE_BACKOFF_MS * 2 ** attempt)
+
+/**
+ * Sends every request to the panel and to Wings. Requests share a concurrency
+ * cap, pause while a host reports its rate limit as exhausted, retry idempotent
+ * requests with jittered backoff, and time out through an AbortController.
+ */
+export class PterodactylApiClient implements vscode.Disposable {
+	private readonly log: ReturnType<typeof createLogger>
+	private readonly waiting: Array<() => void> = []
+	private readonly throttledUntil = new Map<string, number>()
+	private readonly metricsTimer: ReturnType<typeof globalThis.setInterval>
+	private inFlight = 0
+	private throttled = 0
+	private retried = 0
+	private timedOut = 0
+	private completed = 0
+	private lastLoggedMetrics = ""
+
+	public constructor(deps: ApiClientDependencies) {
+		this.log = deps.log
+		this.metricsTimer = globalThis.setInterval(() => {
+			this.logMetrics()
+		}, METRICS_INTERVAL_MS)
+	}
+
+	public getMetrics(): ApiClientMetrics {
+		return {
+			queued: this.waiting.length,
+			inFlight: this.inFlight,
+			throttled: this.throttled,
+			retried: this.retried,
+			timedOut: this.timedOut,
+			completed: this.completed
+		}
+	}
+
+	/**
+	 * Sends a request to `url`, which is proxied through `init.proxyBase`. The
+	 * response is returned whatever its status, once retries are exhausted.
+	 */
+	public async request(url: string, init: ApiRequestInit = {}): Promise<Response> {
+		const method = (init.method ?? "GET").toUpperCase()
+		const retryable = init.retry ?? IDEMPOTENT_METHODS.has(method)
+		const target = new globalThis.URL(url)
+		const label = `${method} ${target.pathname}`
+
+		for (let attempt = 1; ; attempt += 1) {
+			await this.waitForHost(target.host)
+			if (init.signal?.aborted) {
+				throw new vscode.CancellationError()
+			}
+
+			await this.acquire()
+			let response: Response
+			try {
+				response = await this.send(url, method, init, label)
+			} catch (error) {
+				if (init.signal?.aborted || !retryable || attempt >= MAX_ATTEMPTS) {
+					throw error
+				}
+				this.retried += 1
+				this.log(`${label}: attempt ${attempt} failed, retrying: ${String(error)}`)
+				await wait(getBackoffMs(attempt))
+				continue
+			} finally {
+				this.release()
+			}
+
+			this.completed += 1
+			this.updateRateLimit(target.host, response)
+			if (!RETRYABLE_STATUSES.has(response.status) || (response.status !== 429 && !retryable) || attempt >= MAX_ATTEMPTS) {
+				return response
+			}
+
+			this.retried += 1
+			this.log(`${label}: ${response.status} on attempt ${attempt}, retrying (${this.formatMetrics()})`)
+			await response.body?.cancel()
+			await wait(getBackoffMs(attempt))
+		}
+	}
+
+	public dispose(): void {
+		globalThis.clearInterval(this.metricsTimer)
+		this.logMetrics()
+	}
+
+	private async send(url: string, method: string, init: ApiRequestInit, label: string): Promise<Response> {
+		const controller = new globalThis.AbortController()
+		const timeoutMs = init.timeoutMs ?? getApiSetting("requestTimeoutSeconds", DEFAULT_TIMEOUT_SECONDS) * 1000
+		let didTimeOut = false
+		const timer = timeoutMs > 0
+			? globalThis.setTimeout(() => {
+				didTimeOut = true
+				controller.abort()
+			}, timeoutMs)
+			: void 0
+		const abort = (): void => {
+			controller.abort()
+		}
+		init.signal?.addEventListener("abort", abort)
+
+		try {
+			const response = await fetch(proxyUrl(url, init.proxyBase), {
+				method,
+				headers: init.headers,
+				body: init.body,
+				signal: controller.signal
+			})
+			this.log(`${label}: ${response.status} ${response.statusText}`)
+			return response
+		} catch (error) {
+			if (didTimeOut) {
+				this.timedOut += 1
+				throw new Error(`${label} timed out after ${timeoutMs / 1000} seconds`)
+			}
+			throw error
+		} finally {
+			globalThis.clearTimeout(timer)
+			init.signal?.removeEventListener("abort", abort)
+		}
+	}
+
+	private async acquire(): Promise<void> {
+		if (this.inFlight < Math.max(1, getApiSetting("maxConcurrentRequests", DEFAULT_MAX_CONCURRENT_REQUESTS))) {
+			this.inFlight += 1
+			return
+		}
+
+		await new Promise<void>(resolve => {
+			this.waiting.push(resolve)
+		})
+	}
+
+	/** Hands the slot to the next queued request, or frees it. */
+	private release(): void {
+		const next = this.waiting.shift()
+		if (next) {
+			next()
+		} else {
+			this.inFlight -= 1
+		}
+	}
+
+	private async waitForHost(host: string): Promise<void> {
+		const delay = (this.throttledUntil.get(host) ?? 0) - Date.now()
+		if (delay > 0) {
+			await wait(delay)
+		}
+	}
+
+	private updateRateLimit(host: string, response: Response): void {
+		const retryAfter = parseRetryAfter(response.headers.get("Retry-After")) ?? parseRateLimitReset(response.headers.get("X-RateLimit-Reset"))
+		let pauseMs = 0
+		if (response.status === 429) {
+			this.throttled += 1
+			pauseMs = retryAfter ?? DEFAULT_THROTTLE_MS
+		} else if (response.headers.get("X-RateLimit-Remaining") === "0") {
+			pauseMs = retryAfter ?? 0
+		}
+		if (pauseMs <= 0) {
+			return
+		}
+
+		this.throttledUntil.set(host, Math.max(this.throttledUntil.get(host) ?? 0, Date.now() + pauseMs))
+		this.log(`Rate limited by ${host}, pausing requests for ${Math.ceil(pauseMs / 1000)} seconds (${this.formatMetrics()})`)
+	}
+
+	private formatMetrics(): string {
+		const metrics = this.getMetrics()
+		return `${metrics.queued} queued, ${metrics.inFlight} in flight, ${metrics.throttled} throttled, ${metrics.retried} retried, ${metrics.timedOut} timed out, ${metrics.completed} completed`
+	}
+
+	private logMetrics(): void {
+		const metrics = this.formatMetrics()
+		if (metrics !== this.lastLoggedMetrics) {
+			this.lastLoggedMetrics = metrics
+			this.log(`API client: ${metrics}`)
+		}
+	}
+}
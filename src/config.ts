@@ -51,13 +51,17 @@ export const setServerId = async (serverId: string | undefined): Promise<void> =
 	await updateConfig("serverId", serverId)
 }
 
-export const setApiKey = async (apiKey: string | undefined): Promise<void> => {
-	await updateConfig("apiKey", apiKey)
+export const clearLegacyApiKey = async (): Promise<void> => {
+	for (const target of [vscode.ConfigurationTarget.Global, vscode.ConfigurationTarget.Workspace]) {
+		try {
+			await getConfig().update("apiKey", void 0, target)
+		} catch {}
+	}
 }
 
-export const proxyUrl = (url: string): string => {
-	const proxyBase = getProxyBase().trim()
-	return proxyBase ? proxyBase + encodeURIComponent(url) : url
+export const proxyUrl = (url: string, proxyBase = getProxyBase()): string => {
+	const normalizedProxyBase = proxyBase.trim()
+	return normalizedProxyBase ? normalizedProxyBase + encodeURIComponent(url) : url
 }
 
 const trimTrailingSlash = (value: string): string => value.replace(/\/+$/, "")
@@ -67,4 +71,8 @@ export const buildServerApiUrl = (panelUrl: string, serverId: string): string =>
 	return `${baseUrl}/api/client/servers/${serverId}/files`
 }
 
+export const toServerBaseUrl = (serverApiUrl: string): string => serverApiUrl.replace(/\/files$/, "")
+
+export const toClientApiUrl = (serverApiUrl: string): string => serverApiUrl.replace(/\/servers\/[^/]+\/files$/, "")
+
 export const removeStartSlash = (path: string): string => path.replace(/^\//, "")
@@ -0,0 +1,107 @@
+import * as vscode from "vscode"
+
+import type {PterodactylFileSystemProvider, WriteConflict} from "./fsProvider"
+import type {createLogger} from "./logger"
+import {PTERODACTYL_SCHEME} from "./state"
+
+export const REMOTE_VERSION_SCHEME = "pterodactyl-remote"
+
+const OVERWRITE_ACTION = "Overwrite"
+const MERGE_ACTION = "Merge in diff"
+const DISCARD_ACTION = "Discard mine"
+
+export class WriteConflictResolver implements vscode.TextDocumentContentProvider, vscode.Disposable {
+	private readonly fsProvider: PterodactylFileSystemProvider
+	private readonly log: ReturnType<typeof createLogger>
+	private readonly remoteContents = new Map<string, string>()
+	private readonly activeConflicts = new Set<string>()
+	private readonly subscription: vscode.Disposable
+
+	public constructor(fsProvider: PterodactylFileSystemProvider, log: ReturnType<typeof createLogger>) {
+		this.fsProvider = fsProvider
+		this.log = log
+		this.subscription = fsProvider.onDidDetectConflict(conflict => {
+			void this.resolve(conflict)
+		})
+	}
+
+	/** Serves the server version of a conflict, whose uri only differs from the file's in scheme and query. */
+	public provideTextDocumentContent(uri: vscode.Uri): string {
+		return this.remoteContents.get(uri.with({scheme: PTERODACTYL_SCHEME, query: ""}).toString()) ?? ""
+	}
+
+	public dispose(): void {
+		this.subscription.dispose()
+		this.remoteContents.clear()
+	}
+
+	private async resolve(conflict: WriteConflict): Promise<void> {
+		const key = conflict.uri.toString()
+		if (this.activeConflicts.has(key)) {
+			return
+		}
+
+		this.activeConflicts.add(key)
+		try {
+			// Read past the write-back queue and without recording the remote version, so saves keep conflicting until the user picks a resolution
+			const remoteContent = await this.fsProvider.readContents(conflict.uri)
+			this.remoteContents.set(key, new globalThis.TextDecoder().decode(remoteContent))
+
+			const fileName = conflict.uri.path.split("/").pop() ?? conflict.uri.path
+			const remoteUri = conflict.uri.with({scheme: REMOTE_VERSION_SCHEME, query: String(conflict.remoteMtime)})
+			await vscode.commands.executeCommand("vscode.diff", remoteUri, conflict.uri, `${fileName} (Server) ↔ ${fileName} (Yours)`)
+
+			// A queued write has no editor to merge in, and stays queued until overwritten or discarded
+			const selection = conflict.queued
+				? await vscode.window.showWarningMessage(
+					`"${fileName}" was changed on the server while your save was waiting to be uploaded. It stays queued until you overwrite or discard it.`,
+					OVERWRITE_ACTION,
+					DISCARD_ACTION
+				)
+				: await vscode.window.showWarningMessage(
+					`"${fileName}" was changed on the server since you opened it. Your save was not applied.`,
+					OVERWRITE_ACTION,
+					MERGE_ACTION,
+					DISCARD_ACTION
+				)
+
+			switch (selection) {
+				case OVERWRITE_ACTION:
+					this.fsProvider.acceptRemoteVersion(conflict.uri, conflict.remoteMtime)
+					await (conflict.queued ? this.fsProvider.retryPendingWrite(conflict.uri) : this.overwrite(conflict))
+					break
+				case MERGE_ACTION:
+					this.fsProvider.acceptRemoteVersion(conflict.uri, conflict.remoteMtime)
+					void vscode.window.showInformationMessage(`Merge the server changes into "${fileName}" and save to upload the result.`)
+					break
+				case DISCARD_ACTION:
+					if (conflict.queued) {
+						await this.fsProvider.discardPendingWrite(conflict.uri)
+					}
+					await this.discard(conflict.uri)
+					break
+				default:
+					break
+			}
+		} catch (error) {
+			this.log(`Failed to resolve conflict on ${conflict.uri.path}: ${String(error)}`)
+			void vscode.window.showErrorMessage(`Failed to resolve the conflict on ${conflict.uri.path}: ${String(error)}`)
+		} finally {
+			this.activeConflicts.delete(key)
+		}
+	}
+
+	private async overwrite(conflict: WriteConflict): Promise<void> {
+		const document = vscode.workspace.textDocuments.find(candidate => candidate.uri.toString() === conflict.uri.toString())
+		if (document?.isDirty) {
+			await document.save()
+			return
+		}
+		await this.fsProvider.writeFile(conflict.uri, conflict.content, {create: true, overwrite: true})
+	}
+
+	private async discard(uri: vscode.Uri): Promise<void> {
+		await vscode.window.showTextDocument(uri)
+		await vscode.commands.executeCommand("workbench.action.files.revert")
+	}
+}
@@ -0,0 +1,331 @@
+import * as vscode from "vscode"
+
+import {requestServerApi} from "./api"
+import type {PterodactylApiClient} from "./client"
+import type {createLogger} from "./logger"
+import {getActiveServerUri, getServerIdForConnection, resolveConnection, type RuntimeState, type ServerConnection} from "./state"
+
+const MAX_RECONNECT_ATTEMPTS = 5
+const TERMINAL_NAME = "Voidium Console"
+
+interface WebsocketCredentials {
+	token: string
+	socket: string
+}
+
+interface WebsocketCredentialsResponse {
+	data: WebsocketCredentials
+}
+
+interface ConsoleMessage {
+	event: string
+	args?: unknown[]
+}
+
+type ConsoleSocket = InstanceType<typeof globalThis.WebSocket>
+
+/**
+ * Opens the daemon websocket. Wings checks the `Origin` header against the panel
+ * URL, which Node can only send through the `ws` package. Browsers always send
+ * the page origin and take no headers, so on the web the node has to allow it.
+ */
+const createWebSocket = async (url: string, origin: string): Promise<ConsoleSocket> => {
+	if (!globalThis.process?.versions?.node) {
+		return new globalThis.WebSocket(url)
+	}
+
+	const {WebSocket} = await import("ws")
+	return new WebSocket(url, {origin}) as unknown as ConsoleSocket
+}
+
+interface ServerConsoleDependencies {
+	connection: ServerConnection
+	log: ReturnType<typeof createLogger>
+	client: PterodactylApiClient
+	createSocket?: typeof createWebSocket
+}
+
+interface ServerConsoleControllerDependencies {
+	state: RuntimeState
+	log: ReturnType<typeof createLogger>
+	client: PterodactylApiClient
+}
+
+const toOrigin = (url: string): string => {
+	const uri = vscode.Uri.parse(url)
+	return `${uri.scheme}://${uri.authority}`
+}
+
+export class ServerConsoleConnection implements vscode.Disposable {
+	private readonly outputEmitter = new vscode.EventEmitter<string>()
+	private readonly statusEmitter = new vscode.EventEmitter<string>()
+	private readonly connection: ServerConnection
+	private readonly log: ReturnType<typeof createLogger>
+	private readonly client: PterodactylApiClient
+	private readonly createSocket: typeof createWebSocket
+	private socket: ConsoleSocket | undefined
+	private reconnectTimer: ReturnType<typeof globalThis.setTimeout> | undefined
+	private reconnectAttempts = 0
+	/** Whether the log backlog was requested on the current socket, which re-authentication must not repeat. */
+	private logsRequested = false
+	private disposed = false
+
+	public readonly onDidOutput = this.outputEmitter.event
+	public readonly onDidChangeStatus = this.statusEmitter.event
+
+	public constructor(deps: ServerConsoleDependencies) {
+		this.connection = deps.connection
+		this.log = deps.log
+		this.client = deps.client
+		this.createSocket = deps.createSocket ?? createWebSocket
+	}
+
+	public async connect(): Promise<void> {
+		const credentials = await this.fetchCredentials()
+		if (this.disposed) {
+			return
+		}
+
+		this.log(`console: Connecting to ${credentials.socket}`)
+		const socket = await this.createSocket(credentials.socket, toOrigin(this.connection.serverApiUrl))
+		if (this.disposed) {
+			socket.close()
+			return
+		}
+
+		this.logsRequested = false
+		socket.addEventListener("open", () => {
+			this.send("auth", credentials.token)
+		})
+		socket.addEventListener("message", event => {
+			this.handleMessage(String(event.data))
+		})
+		socket.addEventListener("close", event => {
+			this.handleClose(event.code, event.reason)
+		})
+		socket.addEventListener("error", () => {
+			this.log("console: WebSocket error")
+		})
+		this.socket = socket
+	}
+
+	public sendCommand(command: string): void {
+		this.log(`console: Sending command "${command}"`)
+		this.send("send command", command)
+	}
+
+	public dispose(): void {
+		this.disposed = true
+		if (this.reconnectTimer) {
+			globalThis.clearTimeout(this.reconnectTimer)
+		}
+		this.socket?.close()
+		this.socket = void 0
+		this.outputEmitter.dispose()
+		this.statusEmitter.dispose()
+	}
+
+	private send(event: string, ...args: unknown[]): void {
+		if (!this.socket) {
+			this.outputEmitter.fire("Not connected to the server console.")
+			return
+		}
+		this.socket.send(JSON.stringify({event, args}))
+	}
+
+	private async fetchCredentials(): Promise<WebsocketCredentials> {
+		const response = await requestServerApi(this.client, this.connection, "/websocket")
+		const json = await response.json() as WebsocketCredentialsResponse
+		return json.data
+	}
+
+	private async reauthenticate(): Promise<void> {
+		try {
+			const credentials = await this.fetchCredentials()
+			this.send("auth", credentials.token)
+		} catch (error) {
+			this.log(`console: Re-authentication failed: ${String(error)}`)
+			this.outputEmitter.fire(`Failed to refresh the console token: ${String(error)}`)
+		}
+	}
+
+	private handleMessage(data: string): void {
+		let message: ConsoleMessage
+		try {
+			message = JSON.parse(data) as ConsoleMessage
+		} catch {
+			this.log(`console: Ignoring malformed message ${data}`)
+			return
+		}
+
+		const [firstArg] = message.args ?? []
+		switch (message.event) {
+			case "auth success":
+				this.log("console: Authenticated")
+				this.reconnectAttempts = 0
+				if (!this.logsRequested) {
+					this.logsRequested = true
+					this.send("send logs", null)
+				}
+				break
+			case "console output":
+			case "install output":
+				this.outputEmitter.fire(String(firstArg))
+				break
+			case "daemon message":
+				this.outputEmitter.fire(`[Daemon] ${String(firstArg)}`)
+				break
+			case "daemon error":
+			case "jwt error":
+				this.log(`console: ${message.event}: ${String(firstArg)}`)
+				this.outputEmitter.fire(`[Daemon error] ${String(firstArg)}`)
+				break
+			case "status":
+				this.statusEmitter.fire(String(firstArg))
+				break
+			case "token expiring":
+			case "token expired":
+				this.log(`console: ${message.event}, requesting a new token`)
+				void this.reauthenticate()
+				break
+			default:
+				break
+		}
+	}
+
+	private handleClose(code: number, reason: string): void {
+		this.socket = void 0
+		this.log(`console: Socket closed (${code}${reason ? ` ${reason}` : ""})`)
+		if (this.disposed) {
+			return
+		}
+
+		if (this.reconnectAttempts >= MAX_RECONNECT_ATTEMPTS) {
+			this.outputEmitter.fire("Lost connection to the server console.")
+			return
+		}
+
+		this.reconnectAttempts += 1
+		this.reconnectTimer = globalThis.setTimeout(() => {
+			this.connect().catch(error => {
+				this.log(`console: Reconnect failed: ${String(error)}`)
+				this.handleClose(code, reason)
+			})
+		}, 2 ** this.reconnectAttempts * 500)
+	}
+}
+
+export class ServerConsoleTerminal implements vscode.Pseudoterminal {
+	private readonly writeEmitter = new vscode.EventEmitter<string>()
+	private readonly closeEmitter = new vscode.EventEmitter<number | void>()
+	private readonly connection: ServerConsoleConnection
+	private readonly subscriptions: vscode.Disposable[] = []
+	private inputBuffer = ""
+
+	public readonly onDidWrite = this.writeEmitter.event
+	public readonly onDidClose = this.closeEmitter.event
+
+	public constructor(connection: ServerConsoleConnection) {
+		this.connection = connection
+	}
+
+	public open(): void {
+		this.subscriptions.push(
+			this.connection.onDidOutput(line => {
+				this.writeLine(line)
+			}),
+			this.connection.onDidChangeStatus(status => {
+				this.writeLine(`\x1b[33mServer marked as ${status}...\x1b[0m`)
+			})
+		)
+
+		this.writeLine("\x1b[2mConnecting to the server console...\x1b[0m")
+		this.connection.connect().catch(error => {
+			this.writeLine(`\x1b[31mFailed to connect to the server console: ${String(error)}\x1b[0m`)
+		})
+	}
+
+	public close(): void {
+		for (const subscription of this.subscriptions) {
+			subscription.dispose()
+		}
+		this.connection.dispose()
+	}
+
+	public handleInput(data: string): void {
+		if (data.startsWith("\x1b")) {
+			return
+		}
+
+		for (const character of data) {
+			if (character === "\r") {
+				const command = this.inputBuffer.trim()
+				this.inputBuffer = ""
+				this.writeEmitter.fire("\r\n")
+				if (command) {
+					this.connection.sendCommand(command)
+				}
+			} else if (character === "\x7f") {
+				if (this.inputBuffer) {
+					this.inputBuffer = this.inputBuffer.slice(0, -1)
+					this.writeEmitter.fire("\b \b")
+				}
+			} else if (character >= " ") {
+				this.inputBuffer += character
+				this.writeEmitter.fire(character)
+			}
+		}
+	}
+
+	private writeLine(line: string): void {
+		const normalized = line.replace(/\r?\n/g, "\r\n")
+		this.writeEmitter.fire(`\r\x1b[K${normalized}\r\n${this.inputBuffer}`)
+	}
+}
+
+export class ServerConsoleController implements vscode.Disposable {
+	private readonly state: RuntimeState
+	private readonly log: ReturnType<typeof createLogger>
+	private readonly client: PterodactylApiClient
+	private readonly terminals = new Map<string, vscode.Terminal>()
+	private readonly closeListener: vscode.Disposable
+
+	public constructor(deps: ServerConsoleControllerDependencies) {
+		this.state = deps.state
+		this.log = deps.log
+		this.client = deps.client
+		this.closeListener = vscode.window.onDidCloseTerminal(terminal => {
+			for (const [authority, candidate] of this.terminals) {
+				if (candidate === terminal) {
+					this.terminals.delete(authority)
+				}
+			}
+		})
+	}
+
+	public open(uri: vscode.Uri = getActiveServerUri()): void {
+		const connection = resolveConnection(this.state, uri)
+		if (!connection.serverApiUrl || !connection.authHeader) {
+			void vscode.window.showErrorMessage("No server connected")
+			return
+		}
+
+		let terminal = this.terminals.get(uri.authority)
+		if (!terminal) {
+			terminal = vscode.window.createTerminal({
+				name: `${TERMINAL_NAME} (${getServerIdForConnection(connection) ?? "server"})`,
+				pty: new ServerConsoleTerminal(new ServerConsoleConnection({connection, log: this.log, client: this.client})),
+				iconPath: new vscode.ThemeIcon("terminal")
+			})
+			this.terminals.set(uri.authority, terminal)
+		}
+		terminal.show()
+	}
+
+	public dispose(): void {
+		this.closeListener.dispose()
+		for (const terminal of this.terminals.values()) {
+			terminal.dispose()
+		}
+	}
+}
@@ -0,0 +1,207 @@
+import * as vscode from "vscode"
+
+import {requestServerApiAt, runServerTask, type ServerTaskOptions} from "./api"
+import type {PterodactylApiClient} from "./client"
+import type {createLogger} from "./logger"
+import {getActiveServerUri, resolveConnection, type RuntimeState} from "./state"
+
+interface DatabaseAttributes {
+	id: string
+	host: {
+		address: string
+		port: number
+	}
+	name: string
+	username: string
+	connections_from: string
+	max_connections: number
+	relationships?: {
+		password?: {
+			attributes: {
+				password: string
+			}
+		}
+	}
+}
+
+interface DatabaseResponse {
+	attributes: DatabaseAttributes
+}
+
+interface DatabaseListResponse {
+	data: DatabaseResponse[]
+}
+
+interface DatabaseManagerDependencies {
+	state: RuntimeState
+	log: ReturnType<typeof createLogger>
+	client: PterodactylApiClient
+}
+
+export class DatabaseTreeItem extends vscode.TreeItem {
+	public readonly serverUri: vscode.Uri
+
+	public constructor(public readonly database: DatabaseAttributes, serverUri: vscode.Uri) {
+		super(database.name, vscode.TreeItemCollapsibleState.None)
+		this.serverUri = serverUri
+		this.id = `database-${serverUri.authority}-${database.id}`
+		this.contextValue = "database"
+		this.description = `${database.username}@${database.host.address}:${database.host.port}`
+		this.iconPath = new vscode.ThemeIcon("database")
+		this.tooltip = [
+			database.name,
+			`Host: ${database.host.address}`,
+			`Port: ${database.host.port}`,
+			`Username: ${database.username}`,
+			`Allowed remote: ${database.connections_from}`,
+			`Max connections: ${database.max_connections || "unlimited"}`
+		].join("\n")
+	}
+
+	public getJdbcUrl(): string {
+		return `jdbc:mysql://${this.database.host.address}:${this.database.host.port}/${this.database.name}`
+	}
+}
+
+/**
+ * Lists and manages the server's databases. Passwords are only ever written to
+ * the clipboard; requests log their path and status but never response bodies.
+ */
+export class DatabaseManager implements vscode.TreeDataProvider<DatabaseTreeItem> {
+	private readonly eventEmitter = new vscode.EventEmitter<DatabaseTreeItem | undefined | null | void>()
+	private readonly state: RuntimeState
+	private readonly log: ReturnType<typeof createLogger>
+	private readonly taskOptions: ServerTaskOptions
+	private readonly client: PterodactylApiClient
+
+	public readonly onDidChangeTreeData = this.eventEmitter.event
+
+	public constructor(deps: DatabaseManagerDependencies) {
+		this.state = deps.state
+		this.log = deps.log
+		this.client = deps.client
+		this.taskOptions = {
+			log: deps.log,
+			onSettled: () => {
+				this.refresh()
+			}
+		}
+	}
+
+	public getTreeItem(element: DatabaseTreeItem): vscode.TreeItem {
+		return element
+	}
+
+	public async getChildren(element?: DatabaseTreeItem): Promise<DatabaseTreeItem[]> {
+		const serverUri = getActiveServerUri()
+		const connection = resolveConnection(this.state, serverUri)
+		if (element || !connection.serverApiUrl || !connection.authHeader) {
+			return []
+		}
+
+		try {
+			const response = await requestServerApiAt(this.client, this.state, serverUri, "/databases?include=password")
+			const json = await response.json() as DatabaseListResponse
+			return json.data.map(database => new DatabaseTreeItem(database.attributes, serverUri))
+		} catch (error) {
+			this.log(`Failed to list databases: ${String(error)}`)
+			return []
+		}
+	}
+
+	public refresh(): void {
+		this.eventEmitter.fire()
+	}
+
+	public async createDatabase(serverUri: vscode.Uri = getActiveServerUri()): Promise<void> {
+		const name = await vscode.window.showInputBox({
+			prompt: "Database name",
+			placeHolder: "e.g. luckperms",
+			validateInput: (value: string): string | undefined => /^[\w.-]{1,48}$/.test(value.trim()) ? void 0 : "Use up to 48 letters, numbers, dashes, underscores and periods"
+		})
+		if (!name) {
+			return
+		}
+
+		const remote = await vscode.window.showInputBox({
+			prompt: "Connections from",
+			value: "%",
+			placeHolder: "% allows connections from any host",
+			validateInput: (value: string): string | undefined => /^[\w%.:-]+$/.test(value.trim()) ? void 0 : "Enter a host, an IP address or %"
+		})
+		if (!remote) {
+			return
+		}
+
+		let created: DatabaseAttributes | undefined
+		await runServerTask(`Creating database "${name.trim()}"`, this.taskOptions, async () => {
+			const response = await requestServerApiAt(this.client, this.state, serverUri, "/databases?include=password", {
+				method: "POST",
+				body: {database: name.trim(), remote: remote.trim()}
+			})
+			created = (await response.json() as DatabaseResponse).attributes
+		})
+		if (created) {
+			await this.offerPasswordCopy(new DatabaseTreeItem(created, serverUri), `Database "${created.name}" created.`)
+		}
+	}
+
+	public async deleteDatabase(item: DatabaseTreeItem): Promise<void> {
+		const confirmation = await vscode.window.showWarningMessage(
+			`Delete database "${item.database.name}"? All of its data will be lost.`,
+			{modal: true},
+			"Delete"
+		)
+		if (confirmation !== "Delete") {
+			return
+		}
+
+		await runServerTask(`Deleting database "${item.database.name}"`, this.taskOptions, async () => {
+			await requestServerApiAt(this.client, this.state, item.serverUri, `/databases/${item.database.id}`, {method: "DELETE"})
+		})
+	}
+
+	public async rotatePassword(item: DatabaseTreeItem): Promise<void> {
+		const confirmation = await vscode.window.showWarningMessage(
+			`Rotate the password of "${item.database.name}"? Plugins using the current password will lose access until they are updated.`,
+			{modal: true},
+			"Rotate"
+		)
+		if (confirmation !== "Rotate") {
+			return
+		}
+
+		let rotated: DatabaseAttributes | undefined
+		await runServerTask(`Rotating password of "${item.database.name}"`, this.taskOptions, async () => {
+			const response = await requestServerApiAt(this.client, this.state, item.serverUri, `/databases/${item.database.id}/rotate-password`, {method: "POST"})
+			rotated = (await response.json() as DatabaseResponse).attributes
+		})
+		if (rotated) {
+			await this.offerPasswordCopy(new DatabaseTreeItem(rotated, item.serverUri), `Password of "${item.database.name}" rotated.`)
+		}
+	}
+
+	public async copyJdbcUrl(item: DatabaseTreeItem): Promise<void> {
+		await vscode.env.clipboard.writeText(item.getJdbcUrl())
+		void vscode.window.showInformationMessage(`JDBC URL of "${item.database.name}" copied to the clipboard`)
+	}
+
+	public async copyPassword(item: DatabaseTreeItem): Promise<void> {
+		const password = item.database.relationships?.password?.attributes.password
+		if (!password) {
+			void vscode.window.showErrorMessage(`The panel did not return a password for "${item.database.name}". You may lack the permission to view it.`)
+			return
+		}
+
+		await vscode.env.clipboard.writeText(password)
+		void vscode.window.showInformationMessage(`Password of "${item.database.name}" copied to the clipboard`)
+	}
+
+	private async offerPasswordCopy(item: DatabaseTreeItem, message: string): Promise<void> {
+		const copyAction = "Copy password"
+		const selection = await vscode.window.showInformationMessage(message, copyAction)
+		if (selection === copyAction) {
+			await this.copyPassword(item)
+		}
+	}
+}
@@ -2,31 +2,81 @@
 
 import * as vscode from "vscode"
 
-import {buildServerApiUrl, getPanelUrl, getServerId, setApiKey} from "./config"
+import {PterodactylApiClient} from "./client"
+import {buildServerApiUrl, getPanelUrl, getServerId} from "./config"
 import {PterodactylFileSystemProvider} from "./fsProvider"
 import {createLogger} from "./logger"
 import {PanelService} from "./panel"
 import {GitRepoUpdater} from "./updater"
-import {createRuntimeState, clearRuntimeState, hydrateRuntimeState} from "./state"
+import {
+	clearRuntimeState,
+	createRuntimeState,
+	getActiveConnection,
+	getActiveServerUri,
+	getServerFolders,
+	getServerIdForConnection,
+	hydrateRuntimeState,
+	PTERODACTYL_SCHEME
+} from "./state"
 import {StatusBarController} from "./statusBar"
-import {PterodactylTreeDataProvider, PterodactylTreeDragAndDropController} from "./treeView"
-import {logoutOfVoidium, showOnboardingGuidance} from "./account"
+import {
+	getSelectedUris,
+	PterodactylTreeDataProvider,
+	PterodactylTreeDragAndDropController,
+	type PterodactylTreeItem
+} from "./treeView"
+import {
+	addPanelProfile,
+	deletePanelProfile,
+	logoutOfVoidium,
+	renamePanelProfile,
+	showOnboardingGuidance,
+	switchPanelProfile
+} from "./account"
+import {ServerConsoleController} from "./console"
+import {BackupManager, type BackupTreeItem} from "./backups"
+import {REMOTE_VERSION_SCHEME, WriteConflictResolver} from "./conflicts"
+import {ProfileStore} from "./profiles"
+import {ArchiveCommands} from "./archives"
+import {BatchCommands} from "./batch"
+import {TransferCommands} from "./transfers"
+import {PermissionCommands} from "./permissions"
+import {ResourceMonitor, ResourceMonitorPanel} from "./resources"
+import {ScheduleManager, type ScheduleTreeItem, type TaskTreeItem} from "./schedules"
+import {DatabaseManager, type DatabaseTreeItem} from "./databases"
+import {type DockerImageTreeItem, StartupManager, type StartupVariableTreeItem} from "./startup"
+import {type AllocationTreeItem, NetworkManager} from "./network"
+import {type SubuserTreeItem, UserManager} from "./users"
+import {type ActivityEventTreeItem, type ActivityFileTreeItem, ActivityLog} from "./activity"
+import {ServerSearch} from "./search"
+import {type PendingUploadTreeItem, PendingUploadsView, WriteBackStore} from "./writeBack"
 
 const noop = (): void => {}
 
-export const activate = (context: vscode.ExtensionContext): void => {
+export const activate = async (context: vscode.ExtensionContext): Promise<void> => {
 	const log = createLogger(context)
 	log("Loading extension...")
 
+	const profileStore = new ProfileStore(context, log)
+	await profileStore.migrateLegacyApiKey()
+
 	const state = createRuntimeState()
-	hydrateRuntimeState(state)
+	await hydrateRuntimeState(state, profileStore)
+
+	const client = new PterodactylApiClient({log})
+	context.subscriptions.push(client)
 
-	const statusBarController = new StatusBarController({state, log})
+	const resourceMonitor = new ResourceMonitor({state, log, client})
+	const resourceMonitorPanel = new ResourceMonitorPanel(resourceMonitor)
+	context.subscriptions.push(resourceMonitor, resourceMonitorPanel)
+	const statusBarController = new StatusBarController({state, log, client, resourceMonitor})
 	const updater = new GitRepoUpdater(context, log, context.extension.packageJSON.version as string)
 	let refreshTree = noop
 	const panelService = new PanelService({
 		state,
 		log,
+		client,
+		profileStore,
 		onConnected: () => {
 			refreshTree()
 			statusBarController.requestRefresh()
@@ -35,31 +85,101 @@ export const activate = (context: vscode.ExtensionContext): void => {
 	updater.initialize()
 	context.subscriptions.push(updater)
 
+	const writeBack = new WriteBackStore({storageUri: context.storageUri ?? context.globalStorageUri, log})
+	context.subscriptions.push(writeBack)
+	try {
+		await writeBack.initialize()
+	} catch (error) {
+		log(`Failed to restore pending uploads: ${String(error)}`)
+	}
+
 	const fsProvider = new PterodactylFileSystemProvider({
 		state,
 		log,
-		onAuthenticationFailed: () => {
-			void setApiKey(void 0)
+		client,
+		writeBack
+	})
+	context.subscriptions.push(fsProvider)
+	context.subscriptions.push(fsProvider.onDidFailAuthentication(connection => {
+		const activeProfile = profileStore.getActiveProfile()
+		const profile = connection.profile ? profileStore.getProfileByName(connection.profile) : activeProfile
+		if (connection.profile) {
+			const panel = state.profiles.get(connection.profile)
+			if (panel) {
+				panel.authHeader = ""
+			}
+		}
+		if (!profile || profile.id === activeProfile?.id) {
 			state.authHeader = ""
-			void panelService.addPanel().then(() => {
-				statusBarController.requestRefresh()
-			})
 		}
-	})
-	context.subscriptions.push(vscode.workspace.registerFileSystemProvider("pterodactyl", fsProvider, {isCaseSensitive: true}))
+		if (profile) {
+			void profileStore.setApiKey(profile, void 0)
+		}
+		void panelService.addPanel().then(() => {
+			statusBarController.requestRefresh()
+		})
+	}))
+	context.subscriptions.push(vscode.workspace.registerFileSystemProvider(PTERODACTYL_SCHEME, fsProvider, {isCaseSensitive: true}))
+
+	const serverSearch = new ServerSearch({fsProvider, log})
+
+	const pendingUploadsView = new PendingUploadsView({store: writeBack, fsProvider, log})
+	context.subscriptions.push(pendingUploadsView)
+	fsProvider.scheduleReplay()
+
+	const conflictResolver = new WriteConflictResolver(fsProvider, log)
+	context.subscriptions.push(conflictResolver)
+	context.subscriptions.push(vscode.workspace.registerTextDocumentContentProvider(REMOTE_VERSION_SCHEME, conflictResolver))
 
 	const treeDataProvider = new PterodactylTreeDataProvider(fsProvider)
+	context.subscriptions.push(fsProvider.onDidChangeFile(events => {
+		const directories = new Set(events.map(event => vscode.Uri.joinPath(event.uri, "..").toString()))
+		for (const directory of directories) {
+			treeDataProvider.refreshDirectory(vscode.Uri.parse(directory))
+		}
+	}))
+
+	const archiveCommands = new ArchiveCommands({fsProvider, log})
+	const transferCommands = new TransferCommands({fsProvider, log})
+	const permissionCommands = new PermissionCommands({fsProvider, log})
+	const batchCommands = new BatchCommands({fsProvider, log})
+	const backupManager = new BackupManager({state, log, client})
+	const scheduleManager = new ScheduleManager({state, log, client})
+	const databaseManager = new DatabaseManager({state, log, client})
+	const startupManager = new StartupManager({state, log, client})
+	const networkManager = new NetworkManager({state, log, client})
+	const userManager = new UserManager({state, log, client})
+	const activityLog = new ActivityLog({state, log, client})
 	refreshTree = (): void => {
 		treeDataProvider.refresh()
+		backupManager.refresh()
+		scheduleManager.refresh()
+		databaseManager.refresh()
+		startupManager.refresh()
+		networkManager.refresh()
+		userManager.refresh()
+		activityLog.refresh()
 	}
 
-	const treeDragAndDropController = new PterodactylTreeDragAndDropController(fsProvider, treeDataProvider)
+	const treeDragAndDropController = new PterodactylTreeDragAndDropController({fsProvider, transferCommands, log})
 	const treeView = vscode.window.createTreeView("pterodactyl-explorer", {
 		treeDataProvider,
 		dragAndDropController: treeDragAndDropController,
 		canSelectMany: true
 	})
 	context.subscriptions.push(treeView)
+	context.subscriptions.push(vscode.window.createTreeView("pterodactyl-backups", {treeDataProvider: backupManager}))
+	context.subscriptions.push(vscode.window.createTreeView("pterodactyl-schedules", {treeDataProvider: scheduleManager}))
+	context.subscriptions.push(vscode.window.createTreeView("pterodactyl-databases", {treeDataProvider: databaseManager}))
+	context.subscriptions.push(vscode.window.createTreeView("pterodactyl-startup", {treeDataProvider: startupManager}))
+	context.subscriptions.push(vscode.window.createTreeView("pterodactyl-network", {treeDataProvider: networkManager}))
+	context.subscriptions.push(vscode.window.createTreeView("pterodactyl-users", {treeDataProvider: userManager}))
+	const activityView = vscode.window.createTreeView("pterodactyl-activity", {treeDataProvider: activityLog})
+	activityLog.setView(activityView)
+	context.subscriptions.push(activityView)
+	const pendingUploadsTreeView = vscode.window.createTreeView("pterodactyl-pendingUploads", {treeDataProvider: pendingUploadsView})
+	pendingUploadsView.setView(pendingUploadsTreeView)
+	context.subscriptions.push(pendingUploadsTreeView)
 
 	if (state.serverApiUrl) {
 		void vscode.commands.executeCommand("setContext", "pterodactyl-connected", true)
@@ -67,23 +187,54 @@ export const activate = (context: vscode.ExtensionContext): void => {
 
 	statusBarController.initialize(context)
 
+	const consoleController = new ServerConsoleController({state, log, client})
+	context.subscriptions.push(consoleController)
+
+	let activeServerAuthority = getActiveServerUri().authority
+	context.subscriptions.push(vscode.window.onDidChangeActiveTextEditor(() => {
+		const authority = getActiveServerUri().authority
+		if (authority !== activeServerAuthority) {
+			activeServerAuthority = authority
+			statusBarController.requestRefresh()
+			backupManager.refresh()
+			scheduleManager.refresh()
+			databaseManager.refresh()
+			startupManager.refresh()
+			networkManager.refresh()
+			userManager.refresh()
+			activityLog.refresh()
+		}
+	}))
+
+	context.subscriptions.push(profileStore.onDidChange(() => {
+		void hydrateRuntimeState(state, profileStore).then(() => {
+			refreshTree()
+			statusBarController.requestRefresh()
+		})
+	}))
+
+	context.subscriptions.push(vscode.workspace.onDidChangeWorkspaceFolders(() => {
+		treeDataProvider.refresh()
+	}))
+
 	context.subscriptions.push(vscode.workspace.onDidChangeConfiguration(event => {
 		log("Detected configuration change")
 		if (event.affectsConfiguration("pterodactyl-vsc.panelUrl") || event.affectsConfiguration("pterodactyl-vsc.serverId")) {
-			const panelUrl = getPanelUrl()
+			// The active profile's panel URL wins over the setting, as on activation
+			const activeProfile = profileStore.getActiveProfile()
+			state.panelUrl = (activeProfile ? state.profiles.get(activeProfile.name)?.panelUrl : void 0) ?? getPanelUrl()
 			const serverId = getServerId()
-			if (!panelUrl || !serverId) {
+			if (!state.panelUrl || !serverId) {
 				state.serverApiUrl = ""
 				log("-> Missing panel URL or server ID, cleared server API URL")
 			} else {
-				state.serverApiUrl = buildServerApiUrl(panelUrl, serverId)
+				state.serverApiUrl = buildServerApiUrl(state.panelUrl, serverId)
 				log(`Setting server api URL to ${state.serverApiUrl}`)
 			}
 		}
 
 		if (event.affectsConfiguration("pterodactyl-vsc.apiKey")) {
-			const apiKey = vscode.workspace.getConfiguration("pterodactyl-vsc").get<string>("apiKey")
-			state.authHeader = apiKey ? `Bearer ${apiKey}` : ""
+			void profileStore.migrateLegacyApiKey()
 		}
 
 		statusBarController.requestRefresh()
@@ -111,41 +262,282 @@ export const activate = (context: vscode.ExtensionContext): void => {
 
 	context.subscriptions.push(vscode.commands.registerCommand("pterodactyl-vsc.refresh", () => {
 		log("Refreshing workspace server files...")
-		vscode.workspace.updateWorkspaceFolders(0, vscode.workspace.workspaceFolders?.length || 0, {
-			uri: vscode.Uri.parse("pterodactyl:/"),
-			name: "Pterodactyl"
-		})
+		const serverFolders = getServerFolders().map(folder => ({uri: folder.uri, name: folder.name}))
+		if (serverFolders.length === 0) {
+			serverFolders.push({
+				uri: vscode.Uri.parse(`${PTERODACTYL_SCHEME}:/`),
+				name: "Pterodactyl"
+			})
+		}
+		vscode.workspace.updateWorkspaceFolders(0, vscode.workspace.workspaceFolders?.length || 0, ...serverFolders)
 
 		treeDataProvider.refresh()
 		statusBarController.requestRefresh()
 	}))
 
-	context.subscriptions.push(vscode.commands.registerCommand("pterodactyl-vsc.startServer", () => {
-		void statusBarController.sendPowerSignal("start")
+	context.subscriptions.push(vscode.commands.registerCommand("pterodactyl-vsc.startServer", (uri?: vscode.Uri) => {
+		void statusBarController.sendPowerSignal("start", uri)
+	}))
+
+	context.subscriptions.push(vscode.commands.registerCommand("pterodactyl-vsc.stopServer", (uri?: vscode.Uri) => {
+		void statusBarController.sendPowerSignal("stop", uri)
+	}))
+
+	context.subscriptions.push(vscode.commands.registerCommand("pterodactyl-vsc.restartServer", (uri?: vscode.Uri) => {
+		void statusBarController.sendPowerSignal("restart", uri)
 	}))
 
-	context.subscriptions.push(vscode.commands.registerCommand("pterodactyl-vsc.stopServer", () => {
-		void statusBarController.sendPowerSignal("stop")
+	context.subscriptions.push(vscode.commands.registerCommand("pterodactyl-vsc.killServer", (uri?: vscode.Uri) => {
+		void statusBarController.sendPowerSignal("kill", uri)
 	}))
 
-	context.subscriptions.push(vscode.commands.registerCommand("pterodactyl-vsc.restartServer", () => {
-		void statusBarController.sendPowerSignal("restart")
+	context.subscriptions.push(vscode.commands.registerCommand("pterodactyl-vsc.showPowerMenu", (uri?: vscode.Uri) => {
+		void statusBarController.showPowerMenu(uri)
 	}))
 
-	context.subscriptions.push(vscode.commands.registerCommand("pterodactyl-vsc.killServer", () => {
-		void statusBarController.sendPowerSignal("kill")
+	context.subscriptions.push(vscode.commands.registerCommand("pterodactyl-vsc.showResources", () => {
+		resourceMonitorPanel.show()
 	}))
 
-	context.subscriptions.push(vscode.commands.registerCommand("pterodactyl-vsc.showPowerMenu", () => {
-		void statusBarController.showPowerMenu()
+	context.subscriptions.push(vscode.commands.registerCommand("pterodactyl-vsc.openConsole", (uri?: vscode.Uri) => {
+		consoleController.open(uri)
+	}))
+
+	context.subscriptions.push(vscode.commands.registerCommand("pterodactyl-vsc.compress", (target?: PterodactylTreeItem | vscode.Uri, selection?: (PterodactylTreeItem | vscode.Uri)[]) => {
+		void archiveCommands.compress(getSelectedUris(target, selection))
+	}))
+
+	context.subscriptions.push(vscode.commands.registerCommand("pterodactyl-vsc.extract", (target?: PterodactylTreeItem | vscode.Uri, selection?: (PterodactylTreeItem | vscode.Uri)[]) => {
+		void archiveCommands.extract(getSelectedUris(target, selection))
+	}))
+
+	context.subscriptions.push(vscode.commands.registerCommand("pterodactyl-vsc.uploadFromDisk", (target?: PterodactylTreeItem | vscode.Uri) => {
+		void transferCommands.uploadFromDisk(getSelectedUris(target)[0])
+	}))
+
+	context.subscriptions.push(vscode.commands.registerCommand("pterodactyl-vsc.downloadToLocal", (target?: PterodactylTreeItem | vscode.Uri, selection?: (PterodactylTreeItem | vscode.Uri)[]) => {
+		void transferCommands.downloadToLocal(getSelectedUris(target, selection))
+	}))
+
+	context.subscriptions.push(vscode.commands.registerCommand("pterodactyl-vsc.searchServerFiles", (target?: PterodactylTreeItem | vscode.Uri) => {
+		void serverSearch.pickFile(getSelectedUris(target)[0] ?? getActiveServerUri())
+	}))
+
+	context.subscriptions.push(vscode.commands.registerCommand("pterodactyl-vsc.searchServerText", (target?: PterodactylTreeItem | vscode.Uri) => {
+		void serverSearch.searchText(getSelectedUris(target)[0] ?? getActiveServerUri())
+	}))
+
+	context.subscriptions.push(vscode.commands.registerCommand("pterodactyl-vsc.pullFromUrl", (target?: PterodactylTreeItem | vscode.Uri) => {
+		void transferCommands.pullFromUrl(getSelectedUris(target)[0])
+	}))
+
+	context.subscriptions.push(vscode.commands.registerCommand("pterodactyl-vsc.changePermissions", (target?: PterodactylTreeItem | vscode.Uri, selection?: (PterodactylTreeItem | vscode.Uri)[]) => {
+		void permissionCommands.changePermissions(getSelectedUris(target, selection))
+	}))
+
+	context.subscriptions.push(vscode.commands.registerCommand("pterodactyl-vsc.deleteSelected", (target?: PterodactylTreeItem | vscode.Uri, selection?: (PterodactylTreeItem | vscode.Uri)[]) => {
+		void batchCommands.deleteItems(getSelectedUris(target, selection))
+	}))
+
+	context.subscriptions.push(vscode.commands.registerCommand("pterodactyl-vsc.moveSelected", (target?: PterodactylTreeItem | vscode.Uri, selection?: (PterodactylTreeItem | vscode.Uri)[]) => {
+		void batchCommands.moveItems(getSelectedUris(target, selection))
+	}))
+
+	context.subscriptions.push(vscode.commands.registerCommand("pterodactyl-vsc.renameByPattern", (target?: PterodactylTreeItem | vscode.Uri, selection?: (PterodactylTreeItem | vscode.Uri)[]) => {
+		void batchCommands.renameByPattern(getSelectedUris(target, selection))
+	}))
+
+	context.subscriptions.push(vscode.commands.registerCommand("pterodactyl-vsc.createBackup", () => {
+		void backupManager.createBackup()
+	}))
+
+	context.subscriptions.push(vscode.commands.registerCommand("pterodactyl-vsc.refreshBackups", () => {
+		backupManager.refresh()
+	}))
+
+	context.subscriptions.push(vscode.commands.registerCommand("pterodactyl-vsc.restoreBackup", (item: BackupTreeItem) => {
+		void backupManager.restoreBackup(item)
+	}))
+
+	context.subscriptions.push(vscode.commands.registerCommand("pterodactyl-vsc.downloadBackup", (item: BackupTreeItem) => {
+		void backupManager.downloadBackup(item)
+	}))
+
+	context.subscriptions.push(vscode.commands.registerCommand("pterodactyl-vsc.lockBackup", (item: BackupTreeItem) => {
+		void backupManager.toggleLock(item)
+	}))
+
+	context.subscriptions.push(vscode.commands.registerCommand("pterodactyl-vsc.unlockBackup", (item: BackupTreeItem) => {
+		void backupManager.toggleLock(item)
+	}))
+
+	context.subscriptions.push(vscode.commands.registerCommand("pterodactyl-vsc.deleteBackup", (item: BackupTreeItem) => {
+		void backupManager.deleteBackup(item)
+	}))
+
+	context.subscriptions.push(vscode.commands.registerCommand("pterodactyl-vsc.createSchedule", () => {
+		void scheduleManager.createSchedule()
+	}))
+
+	context.subscriptions.push(vscode.commands.registerCommand("pterodactyl-vsc.refreshSchedules", () => {
+		scheduleManager.refresh()
+	}))
+
+	context.subscriptions.push(vscode.commands.registerCommand("pterodactyl-vsc.runSchedule", (item: ScheduleTreeItem) => {
+		void scheduleManager.runSchedule(item)
+	}))
+
+	context.subscriptions.push(vscode.commands.registerCommand("pterodactyl-vsc.editSchedule", (item: ScheduleTreeItem) => {
+		void scheduleManager.editSchedule(item)
+	}))
+
+	context.subscriptions.push(vscode.commands.registerCommand("pterodactyl-vsc.deleteSchedule", (item: ScheduleTreeItem) => {
+		void scheduleManager.deleteSchedule(item)
+	}))
+
+	context.subscriptions.push(vscode.commands.registerCommand("pterodactyl-vsc.createScheduleTask", (item: ScheduleTreeItem) => {
+		void scheduleManager.createTask(item)
+	}))
+
+	context.subscriptions.push(vscode.commands.registerCommand("pterodactyl-vsc.editScheduleTask", (item: TaskTreeItem) => {
+		void scheduleManager.editTask(item)
+	}))
+
+	context.subscriptions.push(vscode.commands.registerCommand("pterodactyl-vsc.deleteScheduleTask", (item: TaskTreeItem) => {
+		void scheduleManager.deleteTask(item)
+	}))
+
+	context.subscriptions.push(vscode.commands.registerCommand("pterodactyl-vsc.createDatabase", () => {
+		void databaseManager.createDatabase()
+	}))
+
+	context.subscriptions.push(vscode.commands.registerCommand("pterodactyl-vsc.refreshDatabases", () => {
+		databaseManager.refresh()
+	}))
+
+	context.subscriptions.push(vscode.commands.registerCommand("pterodactyl-vsc.copyDatabaseJdbcUrl", (item: DatabaseTreeItem) => {
+		void databaseManager.copyJdbcUrl(item)
+	}))
+
+	context.subscriptions.push(vscode.commands.registerCommand("pterodactyl-vsc.copyDatabasePassword", (item: DatabaseTreeItem) => {
+		void databaseManager.copyPassword(item)
+	}))
+
+	context.subscriptions.push(vscode.commands.registerCommand("pterodactyl-vsc.rotateDatabasePassword", (item: DatabaseTreeItem) => {
+		void databaseManager.rotatePassword(item)
+	}))
+
+	context.subscriptions.push(vscode.commands.registerCommand("pterodactyl-vsc.deleteDatabase", (item: DatabaseTreeItem) => {
+		void databaseManager.deleteDatabase(item)
+	}))
+
+	context.subscriptions.push(vscode.commands.registerCommand("pterodactyl-vsc.refreshStartup", () => {
+		startupManager.refresh()
+	}))
+
+	context.subscriptions.push(vscode.commands.registerCommand("pterodactyl-vsc.editStartupVariable", (item: StartupVariableTreeItem) => {
+		void startupManager.editVariable(item)
+	}))
+
+	context.subscriptions.push(vscode.commands.registerCommand("pterodactyl-vsc.changeDockerImage", (item?: DockerImageTreeItem) => {
+		void startupManager.changeDockerImage(item)
+	}))
+
+	context.subscriptions.push(vscode.commands.registerCommand("pterodactyl-vsc.assignAllocation", () => {
+		void networkManager.assignAllocation()
+	}))
+
+	context.subscriptions.push(vscode.commands.registerCommand("pterodactyl-vsc.refreshAllocations", () => {
+		networkManager.refresh()
+	}))
+
+	context.subscriptions.push(vscode.commands.registerCommand("pterodactyl-vsc.copyAllocationAddress", (item: AllocationTreeItem) => {
+		void networkManager.copyAddress(item)
+	}))
+
+	context.subscriptions.push(vscode.commands.registerCommand("pterodactyl-vsc.setPrimaryAllocation", (item: AllocationTreeItem) => {
+		void networkManager.setPrimary(item)
+	}))
+
+	context.subscriptions.push(vscode.commands.registerCommand("pterodactyl-vsc.editAllocationNotes", (item: AllocationTreeItem) => {
+		void networkManager.editNotes(item)
+	}))
+
+	context.subscriptions.push(vscode.commands.registerCommand("pterodactyl-vsc.deleteAllocation", (item: AllocationTreeItem) => {
+		void networkManager.deleteAllocation(item)
+	}))
+
+	context.subscriptions.push(vscode.commands.registerCommand("pterodactyl-vsc.inviteSubuser", () => {
+		void userManager.inviteUser()
+	}))
+
+	context.subscriptions.push(vscode.commands.registerCommand("pterodactyl-vsc.refreshSubusers", () => {
+		userManager.refresh()
+	}))
+
+	context.subscriptions.push(vscode.commands.registerCommand("pterodactyl-vsc.editSubuserPermissions", (item: SubuserTreeItem) => {
+		void userManager.editPermissions(item)
+	}))
+
+	context.subscriptions.push(vscode.commands.registerCommand("pterodactyl-vsc.removeSubuser", (item: SubuserTreeItem) => {
+		void userManager.removeUser(item)
+	}))
+
+	context.subscriptions.push(vscode.commands.registerCommand("pterodactyl-vsc.refreshActivity", () => {
+		activityLog.refresh()
+	}))
+
+	context.subscriptions.push(vscode.commands.registerCommand("pterodactyl-vsc.filterActivity", () => {
+		void activityLog.setFilter()
+	}))
+
+	context.subscriptions.push(vscode.commands.registerCommand("pterodactyl-vsc.loadMoreActivity", () => {
+		void activityLog.loadMore()
+	}))
+
+	context.subscriptions.push(vscode.commands.registerCommand("pterodactyl-vsc.openActivityFile", (item: ActivityEventTreeItem | ActivityFileTreeItem) => {
+		void activityLog.openFile(item)
+	}))
+
+	context.subscriptions.push(vscode.commands.registerCommand("pterodactyl-vsc.retryPendingUploads", () => {
+		void pendingUploadsView.retry()
+	}))
+
+	context.subscriptions.push(vscode.commands.registerCommand("pterodactyl-vsc.retryPendingUpload", (item: PendingUploadTreeItem) => {
+		void pendingUploadsView.retry(item)
+	}))
+
+	context.subscriptions.push(vscode.commands.registerCommand("pterodactyl-vsc.discardPendingUpload", (item: PendingUploadTreeItem) => {
+		void pendingUploadsView.discard(item)
 	}))
 
 	context.subscriptions.push(vscode.commands.registerCommand("pterodactyl-vsc.clearApiKey", () => {
-		void setApiKey(void 0)
-		state.authHeader = ""
-		log("API key cleared")
-		void vscode.window.showInformationMessage("API key has been cleared")
-		statusBarController.requestRefresh()
+		const activeProfile = profileStore.getActiveProfile()
+		if (!activeProfile) {
+			void vscode.window.showInformationMessage("No API key is stored")
+			return
+		}
+
+		void profileStore.setApiKey(activeProfile, void 0).then(() => {
+			log(`API key cleared for profile "${activeProfile.name}"`)
+			void vscode.window.showInformationMessage(`API key for profile "${activeProfile.name}" has been cleared`)
+		})
+	}))
+
+	context.subscriptions.push(vscode.commands.registerCommand("pterodactyl-vsc.addProfile", () => {
+		void addPanelProfile(profileStore, log)
+	}))
+
+	context.subscriptions.push(vscode.commands.registerCommand("pterodactyl-vsc.switchProfile", () => {
+		void switchPanelProfile(profileStore, log)
+	}))
+
+	context.subscriptions.push(vscode.commands.registerCommand("pterodactyl-vsc.renameProfile", () => {
+		void renamePanelProfile(profileStore, log)
+	}))
+
+	context.subscriptions.push(vscode.commands.registerCommand("pterodactyl-vsc.deleteProfile", () => {
+		void deletePanelProfile(profileStore, log)
 	}))
 
 	context.subscriptions.push(vscode.commands.registerCommand("pterodactyl-vsc.checkForUpdates", () => {
@@ -153,8 +545,8 @@ export const activate = (context: vscode.ExtensionContext): void => {
 	}))
 
 	context.subscriptions.push(vscode.commands.registerCommand("pterodactyl-vsc.openPanel", () => {
-		const panelUrl = getPanelUrl()
-		const serverId = getServerId()
+		const panelUrl = state.panelUrl
+		const serverId = getServerIdForConnection(getActiveConnection(state))
 		if (!panelUrl || !serverId) {
 			void vscode.window.showErrorMessage("Panel URL or server ID not configured")
 			return
@@ -165,12 +557,12 @@ export const activate = (context: vscode.ExtensionContext): void => {
 	}))
 
 	context.subscriptions.push(vscode.commands.registerCommand("pterodactyl-vsc.logout", () => {
-		void logoutOfVoidium(state, log)
+		void logoutOfVoidium(state, log, profileStore)
 	}))
 
 	context.subscriptions.push(vscode.commands.registerCommand("pterodactyl-vsc.onboarding", () => {
-		void showOnboardingGuidance(context, {force: true})
+		void showOnboardingGuidance(context, profileStore, {force: true})
 	}))
 
-	void showOnboardingGuidance(context)
+	void showOnboardingGuidance(context, profileStore)
 }
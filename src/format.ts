@@ -0,0 +1,24 @@
+const BYTE_UNITS = ["B", "KiB", "MiB", "GiB", "TiB"]
+
+export const formatBytes = (bytes: number): string => {
+	let value = bytes
+	let unitIndex = 0
+	while (value >= 1024 && unitIndex < BYTE_UNITS.length - 1) {
+		value /= 1024
+		unitIndex += 1
+	}
+	return `${unitIndex === 0 ? value : value.toFixed(1)} ${BYTE_UNITS[unitIndex]}`
+}
+
+export const formatDate = (value: string | null | undefined): string => value ? new Date(value).toLocaleString() : "never"
+
+export const formatDuration = (milliseconds: number): string => {
+	const totalMinutes = Math.floor(milliseconds / 60_000)
+	const days = Math.floor(totalMinutes / 1440)
+	const hours = Math.floor(totalMinutes % 1440 / 60)
+	const minutes = totalMinutes % 60
+	if (days > 0) {
+		return `${days}d ${hours}h ${minutes}m`
+	}
+	return hours > 0 ? `${hours}h ${minutes}m` : `${minutes}m`
+}
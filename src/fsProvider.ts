@@ -1,8 +1,27 @@
 import * as vscode from "vscode"
 
+import {wait} from "./api"
+import type {ApiRequestInit, PterodactylApiClient} from "./client"
 import {proxyUrl, removeStartSlash} from "./config"
+import {DirectoryListingCache} from "./listingCache"
 import type {createLogger} from "./logger"
-import type {RuntimeState} from "./state"
+import {resolveConnection, type RuntimeState, type ServerConnection} from "./state"
+import {PollingFileWatcher} from "./watcher"
+import type {PendingUpload, WriteBackStore} from "./writeBack"
+
+const RATE_LIMIT_MESSAGE = "You have been ratelimited by the Pterodactyl panel."
+const SERVER_ERROR_MESSAGE = "The server (or a proxy) was unable to handle the request. Check Output -> Pterodactyl for more information."
+const UNKNOWN_ERROR_MESSAGE = "Unknown error:"
+const CONFLICT_MESSAGE = "was changed on the server since you opened it."
+const REPLAY_INTERVAL_MS = 30_000
+/** Deletes requested within this window share one `/delete` request, e.g. when the explorer deletes a selection. */
+const DELETE_BATCH_DELAY_MS = 50
+/** Appended to entries that are replaced, until the replacement is in place. */
+const REPLACED_SUFFIX = ".replaced"
+/** Appended to the folder a directory copy is extracted into. */
+const STAGING_SUFFIX = ".copying"
+const DEFAULT_UPLOAD_THRESHOLD_MB = 4
+const DEFAULT_DOWNLOAD_THRESHOLD_MB = 4
 
 interface PterodactylErrorResponse {
 	errors: Array<{
@@ -11,13 +30,14 @@ interface PterodactylErrorResponse {
 	}>
 }
 
-interface PterodactylFileAttributes {
+export interface PterodactylFileAttributes {
 	name: string
 	is_file: boolean
 	is_symlink: boolean
 	created_at: string
 	modified_at: string
 	mode: string
+	mode_bits: string
 	size: number
 }
 
@@ -27,43 +47,115 @@ interface PterodactylFileResponse {
 	}>
 }
 
+interface PterodactylSignedUrlResponse {
+	attributes: {
+		url: string
+	}
+}
+
+export const isRateLimitError = (error: unknown): boolean => error instanceof vscode.FileSystemError && error.message.includes(RATE_LIMIT_MESSAGE)
+
+/**
+ * Whether `error` means the panel could not be reached or did not handle the
+ * request, as opposed to rejecting it, so the same request may succeed later.
+ */
+export const isConnectivityError = (error: unknown): boolean => {
+	if (error instanceof vscode.FileSystemError) {
+		return [RATE_LIMIT_MESSAGE, SERVER_ERROR_MESSAGE, UNKNOWN_ERROR_MESSAGE].some(message => error.message.includes(message))
+	}
+	return error instanceof Error && !(error instanceof vscode.CancellationError)
+}
+
+/**
+ * The names Wings tries, in order, for a copy of `name` in the same directory:
+ * `<name> copy<extension>`, then `<name> copy 1<extension>` up to 50, where
+ * `.tar.*` counts as one extension and dotfiles have no name before it.
+ */
+const getCopyNameCandidates = (name: string): string[] => {
+	const dot = name.lastIndexOf(".")
+	let extension = dot === -1 ? "" : name.slice(dot)
+	let stem = name.slice(0, name.length - extension.length)
+	if (stem.endsWith(".tar")) {
+		extension = `.tar${extension}`
+		stem = stem.slice(0, -".tar".length)
+	}
+	return Array.from({length: 51}, (_, index) => `${stem} copy${index === 0 ? "" : ` ${index}`}${extension}`)
+}
+
+const isConflictError = (error: unknown): boolean => error instanceof vscode.FileSystemError && error.message.includes(CONFLICT_MESSAGE)
+
+export interface WriteConflict {
+	uri: vscode.Uri
+	content: Uint8Array
+	knownMtime: number
+	remoteMtime: number
+	/** Whether the write comes from the write-back queue, where it stays until overwritten or discarded. */
+	queued: boolean
+}
+
 interface FileSystemProviderDependencies {
 	state: RuntimeState
 	log: ReturnType<typeof createLogger>
-	onAuthenticationFailed: () => void
+	client: PterodactylApiClient
+	/** Enables the write-back queue and content cache, when the `writeBack.enabled` setting is on. */
+	writeBack?: WriteBackStore
 }
 
-export class PterodactylFileSystemProvider implements vscode.FileSystemProvider {
+export class PterodactylFileSystemProvider implements vscode.FileSystemProvider, vscode.Disposable {
 	private readonly eventEmitter = new vscode.EventEmitter<vscode.FileChangeEvent[]>()
-	private readonly responseCache = new Map<string, vscode.FileStat>()
-	private readonly responseCacheHits = new Map<string, number>()
+	private readonly conflictEmitter = new vscode.EventEmitter<WriteConflict>()
+	private readonly authenticationEmitter = new vscode.EventEmitter<ServerConnection>()
+	private readonly knownMtimes = new Map<string, number>()
 	private readonly state: RuntimeState
 	private readonly log: ReturnType<typeof createLogger>
-	private readonly onAuthenticationFailed: () => void
+	private readonly client: PterodactylApiClient
+	private readonly watchers = new Map<string, PollingFileWatcher>()
+	private readonly listings: DirectoryListingCache
+	private readonly deleteBatches = new Map<string, {uris: vscode.Uri[], done: Promise<void>}>()
+	private readonly writeBack: WriteBackStore | undefined
+	private replayTimer: ReturnType<typeof globalThis.setTimeout> | undefined
+	private replaying: Promise<void> | undefined
+	/** The queued write currently being uploaded, which reads no longer serve from the queue. */
+	private replayingId: string | undefined
 
 	public readonly onDidChangeFile = this.eventEmitter.event
+	public readonly onDidDetectConflict = this.conflictEmitter.event
+	/** Fires with the connection whose API key was rejected, once the user chose to authenticate again. */
+	public readonly onDidFailAuthentication = this.authenticationEmitter.event
 
 	public constructor(deps: FileSystemProviderDependencies) {
 		this.state = deps.state
 		this.log = deps.log
-		this.onAuthenticationFailed = deps.onAuthenticationFailed
+		this.client = deps.client
+		this.writeBack = deps.writeBack
+		this.listings = new DirectoryListingCache({log: deps.log})
 	}
 
-	private ensureConnected(): void {
-		if (!this.state.serverApiUrl) {
+	private ensureConnected(uri: vscode.Uri): ServerConnection {
+		const connection = resolveConnection(this.state, uri)
+		if (!connection.serverApiUrl) {
 			throw vscode.FileSystemError.Unavailable("No server API URL set, please init the extension first.")
 		}
+		return connection
 	}
 
-	private async forConnection(operation: string, response: Response): Promise<void> {
+	private request(connection: ServerConnection, url: string, init: ApiRequestInit = {}): Promise<Response> {
+		return this.client.request(url, {
+			...init,
+			headers: {Authorization: connection.authHeader, ...init.headers},
+			proxyBase: connection.proxyBase
+		})
+	}
+
+	private async forConnection(operation: string, response: Response, connection: ServerConnection): Promise<void> {
 		this.log(`${operation}: ${response.status} ${response.statusText}`)
 
 		switch (response.status) {
 			case 401: {
-				const host = vscode.Uri.parse(this.state.serverApiUrl).authority
+				const host = vscode.Uri.parse(connection.serverApiUrl).authority
 				const message = await vscode.window.showWarningMessage(`Authentication failed for ${host}.`, "Authenticate")
 				if (message === "Authenticate") {
-					this.onAuthenticationFailed()
+					this.authenticationEmitter.fire(connection)
 				}
 				throw vscode.FileSystemError.NoPermissions(response.url)
 			}
@@ -71,95 +163,234 @@ export class PterodactylFileSystemProvider implements vscode.FileSystemProvider
 				throw vscode.FileSystemError.NoPermissions(response.url)
 			case 404:
 				throw vscode.FileSystemError.FileNotFound(response.url)
+			case 400:
 			case 422: {
 				const json = await response.json() as PterodactylErrorResponse
 				throw vscode.FileSystemError.Unavailable(json.errors[0]?.detail ?? "Request could not be completed.")
 			}
 			case 429:
-				throw vscode.FileSystemError.Unavailable("You have been ratelimited by the Pterodactyl panel.")
+				throw vscode.FileSystemError.Unavailable(RATE_LIMIT_MESSAGE)
 			case 500: {
 				const text = await response.text()
 				this.log(`-> Response: ${text}`)
-				throw vscode.FileSystemError.Unavailable("The server (or a proxy) was unable to handle the request. Check Output -> Pterodactyl for more information.")
+				throw vscode.FileSystemError.Unavailable(SERVER_ERROR_MESSAGE)
 			}
 			default:
 				if (!response.ok) {
-					throw vscode.FileSystemError.Unavailable(`Unknown error: ${response.status} ${response.statusText}`)
+					throw vscode.FileSystemError.Unavailable(`${UNKNOWN_ERROR_MESSAGE} ${response.status} ${response.statusText}`)
 				}
 		}
 	}
 
+	/**
+	 * Copies a file or directory so that it lands exactly at `destination`. Files
+	 * are copied by the panel, which names the copy after the source, and then
+	 * renamed into place; directories are recreated and copied file by file.
+	 */
 	public async copy(source: vscode.Uri, destination: vscode.Uri, options: {overwrite: boolean} = {overwrite: false}): Promise<void> {
-		this.ensureConnected()
+		this.ensureConnected(source)
 
-		if (options.overwrite) {
+		// Check everything that would make the copy fail before touching the destination.
+		const sourceStat = await this.stat(source)
+		const isDirectory = (sourceStat.type & vscode.FileType.Directory) !== 0
+		if (source.toString() === destination.toString()) {
+			throw vscode.FileSystemError.Unavailable(`Cannot copy ${source.path} onto itself.`)
+		}
+		if (isDirectory && source.authority === destination.authority && destination.path.startsWith(`${source.path}/`)) {
+			throw vscode.FileSystemError.Unavailable(`Cannot copy ${source.path} into itself.`)
+		}
+		const destinationExists = await this.exists(destination)
+		if (destinationExists && !options.overwrite) {
+			throw vscode.FileSystemError.FileExists(destination)
+		}
+
+		const copyEntry = async (): Promise<void> => {
+			if (source.authority !== destination.authority) {
+				await this.copyAcrossServers(source, destination, options)
+			} else if (isDirectory) {
+				await this.copyDirectory(source, destination)
+			} else {
+				await this.copyFile(source, destination)
+			}
+		}
+		await (destinationExists ? this.withReplaced(destination, copyEntry) : copyEntry())
+	}
+
+	/**
+	 * Moves `destination` aside while `task` puts a new entry in its place, then
+	 * deletes the old entry, or moves it back when `task` fails.
+	 */
+	private async withReplaced(destination: vscode.Uri, task: () => Promise<void>): Promise<void> {
+		const backup = destination.with({path: `${destination.path}.${Date.now().toString(36)}${REPLACED_SUFFIX}`})
+		await this.renameMany([{from: destination, to: backup}])
+		try {
+			await task()
+		} catch (error) {
 			try {
-				await this.delete(destination)
-			} catch {}
+				if (await this.exists(destination)) {
+					await this.delete(destination)
+				}
+				await this.renameMany([{from: backup, to: destination}])
+			} catch (restoreError) {
+				this.log(`Failed to restore ${destination.path} from ${backup.path}: ${String(restoreError)}`)
+			}
+			throw error
 		}
 
-		const copyResponse = await fetch(proxyUrl(`${this.state.serverApiUrl}/copy`), {
+		try {
+			await this.delete(backup)
+		} catch (error) {
+			this.log(`Failed to delete the replaced ${backup.path}: ${String(error)}`)
+		}
+	}
+
+	/**
+	 * Copies a file to a free `destination` through the panel, which copies next to
+	 * the source, and a rename. `siblings` are the names next to the source, when
+	 * the caller already listed them.
+	 */
+	private async copyFile(source: vscode.Uri, destination: vscode.Uri, siblings?: Set<string>): Promise<void> {
+		const connection = this.ensureConnected(source)
+		const directory = source.with({path: source.path.split("/").slice(0, -1).join("/") || "/"})
+		const existing = siblings ?? new Set((await this.listDirectory(directory, true)).map(file => file.name))
+		const copyName = getCopyNameCandidates(source.path.split("/").pop() ?? "").find(name => !existing.has(name))
+		if (!copyName) {
+			this.log(`copy: No free copy name next to ${source.path}, copying its contents instead`)
+			const content = await this.readFile(source)
+			await this.writeFile(destination, content, {create: true, overwrite: true})
+			return
+		}
+
+		const copyResponse = await this.request(connection, `${connection.serverApiUrl}/copy`, {
 			method: "POST",
 			headers: {
-				"Content-Type": "application/json",
-				Authorization: this.state.authHeader
+				"Content-Type": "application/json"
 			},
 			body: JSON.stringify({
 				location: source.path
 			})
 		})
-		await this.forConnection(`copy: ${source.path} -> ${destination.path}`, copyResponse)
-
-		const oldPath = source.path.split("/").slice(0, -1).join("/") || "/"
-		const oldName = source.path.split("/").pop()
-		const oldNameSegments = oldName?.split(".") ?? []
-		const oldNamePrefix = oldNameSegments.slice(0, -1).join(".")
-		const oldNameSuffix = oldNameSegments.at(-1)
-		const copiedLocation = `${oldNamePrefix} copy.${oldNameSuffix}`
-		const newPath = destination.path.split("/").slice(0, -1).join("/") || "/"
-
-		if (oldPath === newPath) {
-			this.log(`copy: Not renaming file ${newPath}/${copiedLocation} due to same directory`)
+		await this.forConnection(`copy: ${source.path} -> ${destination.path}`, copyResponse, connection)
+		this.listings.invalidate(source)
+
+		const copied = vscode.Uri.joinPath(directory, copyName)
+		if (copied.path === destination.path) {
 			return
 		}
 
-		this.log(`copy: ${oldPath}/${copiedLocation} -> ${newPath}/${destination.path.split("/").pop()}`)
-		const renameResponse = await fetch(proxyUrl(`${this.state.serverApiUrl}/rename`), {
-			method: "PUT",
-			headers: {
-				"Content-Type": "application/json",
-				Authorization: this.state.authHeader
-			},
-			body: JSON.stringify({
-				root: "/",
-				files: [{
-					from: removeStartSlash(`${oldPath}/${copiedLocation}`),
-					to: removeStartSlash(`${newPath}/${destination.path.split("/").pop()}`)
-				}]
-			})
-		})
-		await this.forConnection(`rename after copy: ${source.path} -> ${destination.path}`, renameResponse)
+		this.log(`copy: ${copied.path} -> ${destination.path}`)
+		try {
+			await this.renameMany([{from: copied, to: destination}])
+		} catch (error) {
+			try {
+				await this.delete(copied)
+			} catch {}
+			throw error
+		}
+	}
+
+	/**
+	 * Copies a directory to a free `destination` by compressing it and extracting
+	 * the archive in a staging folder, which costs the same few requests for any
+	 * number of files. Falls back to copying entry by entry if that fails.
+	 */
+	private async copyDirectory(source: vscode.Uri, destination: vscode.Uri): Promise<void> {
+		const parent = source.with({path: source.path.split("/").slice(0, -1).join("/") || "/"})
+		const name = source.path.split("/").pop() ?? ""
+		let archive: PterodactylFileAttributes
+		try {
+			archive = await this.compress(parent, [name])
+		} catch (error) {
+			this.log(`copy: Could not compress ${source.path}, copying it entry by entry: ${String(error)}`)
+			await this.copyEntries(source, destination)
+			return
+		}
+
+		const archiveUri = vscode.Uri.joinPath(parent, archive.name)
+		const staging = destination.with({path: `${destination.path}.${Date.now().toString(36)}${STAGING_SUFFIX}`})
+		let stagingCreated = false
+		let archiveMoved = false
+		try {
+			await this.createDirectory(staging)
+			stagingCreated = true
+			await this.renameMany([{from: archiveUri, to: vscode.Uri.joinPath(staging, archive.name)}])
+			archiveMoved = true
+			await this.decompress(vscode.Uri.joinPath(staging, archive.name))
+			await this.renameMany([{from: vscode.Uri.joinPath(staging, name), to: destination}])
+		} finally {
+			const leftovers: vscode.Uri[] = []
+			if (stagingCreated) {
+				leftovers.push(staging)
+			}
+			if (!archiveMoved) {
+				leftovers.push(archiveUri)
+			}
+			for (const leftover of leftovers) {
+				try {
+					await this.delete(leftover)
+				} catch (error) {
+					this.log(`copy: Failed to clean up ${leftover.path}: ${String(error)}`)
+				}
+			}
+		}
+	}
+
+	private async copyEntries(source: vscode.Uri, destination: vscode.Uri): Promise<void> {
+		await this.createDirectory(destination)
+		const entries = await this.listDirectory(source, true)
+		const siblings = new Set(entries.map(file => file.name))
+		for (const file of entries) {
+			const from = vscode.Uri.joinPath(source, file.name)
+			const to = vscode.Uri.joinPath(destination, file.name)
+			await (file.is_file ? this.copyFile(from, to, siblings) : this.copyEntries(from, to))
+		}
+	}
+
+	private async exists(uri: vscode.Uri): Promise<boolean> {
+		try {
+			await this.stat(uri)
+			return true
+		} catch (error) {
+			if (error instanceof vscode.FileSystemError && error.code === "FileNotFound") {
+				return false
+			}
+			throw error
+		}
+	}
+
+	private async copyAcrossServers(source: vscode.Uri, destination: vscode.Uri, options: {overwrite: boolean}): Promise<void> {
+		const sourceStat = await this.stat(source)
+		if (sourceStat.type & vscode.FileType.Directory) {
+			await this.createDirectory(destination)
+			for (const [name] of await this.readDirectory(source)) {
+				await this.copyAcrossServers(vscode.Uri.joinPath(source, name), vscode.Uri.joinPath(destination, name), options)
+			}
+			return
+		}
+
+		const content = await this.readFile(source)
+		await this.writeFile(destination, content, {create: true, overwrite: options.overwrite})
 	}
 
 	public async createDirectory(uri: vscode.Uri): Promise<void> {
-		this.ensureConnected()
+		const connection = this.ensureConnected(uri)
 
-		const response = await fetch(proxyUrl(`${this.state.serverApiUrl}/create-folder`), {
+		const response = await this.request(connection, `${connection.serverApiUrl}/create-folder`, {
 			method: "POST",
 			headers: {
-				"Content-Type": "application/json",
-				Authorization: this.state.authHeader
+				"Content-Type": "application/json"
 			},
 			body: JSON.stringify({
 				root: "/",
 				name: uri.path
 			})
 		})
-		await this.forConnection(`createDirectory: ${uri}`, response)
+		await this.forConnection(`createDirectory: ${uri}`, response, connection)
+		this.listings.invalidate(uri)
 	}
 
 	public async delete(uri: vscode.Uri, options: {recursive: boolean} = {recursive: true}): Promise<void> {
-		this.ensureConnected()
+		this.ensureConnected(uri)
 
 		if (options.recursive === false) {
 			let items: [string, vscode.FileType][] = []
@@ -172,115 +403,333 @@ export class PterodactylFileSystemProvider implements vscode.FileSystemProvider
 			}
 		}
 
-		const response = await fetch(proxyUrl(`${this.state.serverApiUrl}/delete`), {
+		let batch = this.deleteBatches.get(uri.authority)
+		if (!batch) {
+			const uris: vscode.Uri[] = []
+			batch = {
+				uris,
+				done: wait(DELETE_BATCH_DELAY_MS).then(() => {
+					this.deleteBatches.delete(uri.authority)
+					return this.deleteMany(uris)
+				})
+			}
+			this.deleteBatches.set(uri.authority, batch)
+		}
+		batch.uris.push(uri)
+		try {
+			await batch.done
+		} catch (error) {
+			if (batch.uris.length === 1) {
+				throw error
+			}
+
+			// One failing path fails the whole batched request, so each delete of the batch is retried on its own
+			this.log(`delete: Batched delete failed, deleting ${uri.path} on its own: ${String(error)}`)
+			try {
+				await this.deleteMany([uri])
+			} catch (retryError) {
+				if (!(retryError instanceof vscode.FileSystemError && retryError.code === "FileNotFound")) {
+					throw retryError
+				}
+			}
+		}
+	}
+
+	/**
+	 * Deletes entries with a single `/delete` request per server. Entries inside
+	 * another deleted folder are left to the folder.
+	 */
+	public async deleteMany(uris: vscode.Uri[]): Promise<void> {
+		const byServer = new Map<string, vscode.Uri[]>()
+		for (const uri of uris) {
+			if (uris.some(other => other.authority === uri.authority && uri.path.startsWith(`${other.path.replace(/\/$/, "")}/`))) {
+				continue
+			}
+			const group = byServer.get(uri.authority) ?? []
+			if (!group.some(other => other.path === uri.path)) {
+				group.push(uri)
+			}
+			byServer.set(uri.authority, group)
+		}
+
+		for (const group of byServer.values()) {
+			const connection = this.ensureConnected(group[0])
+			const response = await this.request(connection, `${connection.serverApiUrl}/delete`, {
+				method: "POST",
+				headers: {
+					"Content-Type": "application/json"
+				},
+				body: JSON.stringify({
+					root: "/",
+					files: group.map(uri => removeStartSlash(uri.path))
+				})
+			})
+			await this.forConnection(group.length === 1 ? `delete: ${group[0]}` : `delete: ${group.length} entries`, response, connection)
+			for (const uri of group) {
+				this.listings.invalidate(uri)
+			}
+		}
+	}
+
+	/**
+	 * Compresses the given entries of one directory into a new archive next to them
+	 * and returns the archive the panel created.
+	 */
+	public async compress(directory: vscode.Uri, names: string[]): Promise<PterodactylFileAttributes> {
+		const connection = this.ensureConnected(directory)
+
+		const response = await this.request(connection, `${connection.serverApiUrl}/compress`, {
 			method: "POST",
 			headers: {
 				"Content-Type": "application/json",
-				Authorization: this.state.authHeader
+				Accept: "application/json"
 			},
 			body: JSON.stringify({
-				root: "/",
-				files: [removeStartSlash(uri.path)]
+				root: directory.path,
+				files: names
 			})
 		})
-		await this.forConnection(`delete: ${uri}`, response)
+		await this.forConnection(`compress: ${directory} (${names.length} entries)`, response, connection)
+
+		const json = await response.json() as {attributes: PterodactylFileAttributes}
+		this.notifyChanges([{type: vscode.FileChangeType.Created, uri: vscode.Uri.joinPath(directory, json.attributes.name)}])
+		return json.attributes
 	}
 
-	public async readDirectory(uri: vscode.Uri): Promise<[string, vscode.FileType][]> {
-		this.ensureConnected()
+	public async decompress(uri: vscode.Uri): Promise<void> {
+		const connection = this.ensureConnected(uri)
+		const directoryPath = uri.path.split("/").slice(0, -1).join("/") || "/"
 
-		const requestUrl = `${this.state.serverApiUrl}/list?directory=${encodeURIComponent(uri.path)}`
-		this.log(`Reading directory: ${proxyUrl(requestUrl)}`)
+		const response = await this.request(connection, `${connection.serverApiUrl}/decompress`, {
+			method: "POST",
+			headers: {
+				"Content-Type": "application/json"
+			},
+			body: JSON.stringify({
+				root: directoryPath,
+				file: uri.path.split("/").pop()
+			})
+		})
+		await this.forConnection(`decompress: ${uri}`, response, connection)
+		this.notifyChanges([
+			{type: vscode.FileChangeType.Changed, uri: uri.with({path: directoryPath})},
+			{type: vscode.FileChangeType.Changed, uri}
+		])
+	}
 
-		const response = await fetch(proxyUrl(requestUrl), {
+	/**
+	 * Asks the daemon to download `url` into `directory` in the background. Poll
+	 * the listing to find out when the file has arrived.
+	 */
+	public async pullFromUrl(directory: vscode.Uri, url: string, options: {fileName?: string, useHeader: boolean}): Promise<void> {
+		const connection = this.ensureConnected(directory)
+
+		const response = await this.request(connection, `${connection.serverApiUrl}/pull`, {
+			method: "POST",
+			headers: {
+				"Content-Type": "application/json",
+				Accept: "application/json"
+			},
+			body: JSON.stringify({
+				url,
+				directory: directory.path,
+				filename: options.fileName,
+				use_header: options.useHeader
+			})
+		})
+		await this.forConnection(`pull: ${url} -> ${directory}`, response, connection)
+		this.listings.invalidate(directory)
+	}
+
+	/**
+	 * Applies an octal mode such as `755` to the given files, batching one request
+	 * per parent directory.
+	 */
+	public async chmod(uris: vscode.Uri[], mode: string): Promise<void> {
+		const byDirectory = new Map<string, vscode.Uri[]>()
+		for (const uri of uris) {
+			const directory = uri.with({path: uri.path.split("/").slice(0, -1).join("/") || "/"}).toString()
+			byDirectory.set(directory, [...byDirectory.get(directory) ?? [], uri])
+		}
+
+		for (const [directory, files] of byDirectory) {
+			const directoryUri = vscode.Uri.parse(directory)
+			const connection = this.ensureConnected(directoryUri)
+			const response = await this.request(connection, `${connection.serverApiUrl}/chmod`, {
+				method: "POST",
+				headers: {
+					"Content-Type": "application/json"
+				},
+				body: JSON.stringify({
+					root: directoryUri.path,
+					files: files.map(file => ({file: file.path.split("/").pop(), mode}))
+				})
+			})
+			await this.forConnection(`chmod ${mode}: ${files.length} file(s) in ${directoryUri}`, response, connection)
+			this.notifyChanges(files.map(file => ({type: vscode.FileChangeType.Changed, uri: file})))
+		}
+	}
+
+	/**
+	 * Lists a directory through the shared listing cache. Pass `fresh` to skip a
+	 * cached listing, e.g. when polling for remote changes.
+	 */
+	public listDirectory(uri: vscode.Uri, fresh = false): Promise<PterodactylFileAttributes[]> {
+		this.ensureConnected(uri)
+		return this.listings.get(uri, () => this.fetchDirectory(uri), fresh)
+	}
+
+	/** Drops the cached listings affected by a change to `uri`, or all of them. */
+	public invalidateListings(uri?: vscode.Uri): void {
+		if (uri) {
+			this.listings.invalidate(uri)
+		} else {
+			this.listings.clear()
+		}
+	}
+
+	private async fetchDirectory(uri: vscode.Uri): Promise<PterodactylFileAttributes[]> {
+		const connection = this.ensureConnected(uri)
+
+		const requestUrl = `${connection.serverApiUrl}/list?directory=${encodeURIComponent(uri.path)}`
+		this.log(`Reading directory: ${proxyUrl(requestUrl, connection.proxyBase)}`)
+
+		const response = await this.request(connection, requestUrl, {
 			headers: {
-				Authorization: this.state.authHeader,
 				Accept: "application/json"
 			}
 		})
-		this.log(`readDirectory response: ${response.status} ${response.statusText}`)
-		await this.forConnection(`readDirectory: ${uri}`, response)
+		await this.forConnection(`readDirectory: ${uri}`, response, connection)
 
 		const json = await response.json() as PterodactylFileResponse
-		return json.data.map(file => {
-			const attributes = file.attributes
-			let type = vscode.FileType.Directory
-			if (attributes.is_file && attributes.is_symlink) {
-				type = vscode.FileType.File | vscode.FileType.SymbolicLink
-			} else if (attributes.is_file) {
-				type = vscode.FileType.File
-			} else if (attributes.is_symlink) {
-				type = vscode.FileType.Directory | vscode.FileType.SymbolicLink
-			}
-
-			return [attributes.name, type]
-		})
+		return json.data.map(file => file.attributes)
+	}
+
+	public async readDirectory(uri: vscode.Uri): Promise<[string, vscode.FileType][]> {
+		const files = await this.listDirectory(uri)
+		return files.map(file => [file.name, this.getFileType(file.is_file, file.is_symlink)])
 	}
 
 	public async readFile(uri: vscode.Uri): Promise<Uint8Array> {
-		this.ensureConnected()
+		this.ensureConnected(uri)
 
-		const maxRetries = 3
-		let lastError: unknown
+		const pending = this.getPendingWrite(uri)
+		if (this.writeBack && pending) {
+			return this.writeBack.readPending(pending)
+		}
 
-		for (let attempt = 1; attempt <= maxRetries; attempt += 1) {
-			try {
-				const response = await fetch(proxyUrl(`${this.state.serverApiUrl}/contents?file=${encodeURIComponent(uri.path)}`), {
-					headers: {
-						Authorization: this.state.authHeader
-					}
-				})
-				await this.forConnection(`readFile: ${uri} (attempt ${attempt})`, response)
-				return new Uint8Array(await response.arrayBuffer())
-			} catch (error) {
-				lastError = error
-				this.log(`readFile attempt ${attempt} failed for ${uri.path}: ${String(error)}`)
-				if (attempt < maxRetries) {
-					await new Promise<void>(resolve => {
-						setTimeout(resolve, 2 ** attempt * 100)
-					})
-				}
+		const writeBack = this.getWriteBack()
+
+		let fileStat: vscode.FileStat | undefined
+		try {
+			fileStat = await this.stat(uri)
+		} catch (error) {
+			this.log(`readFile: Could not stat ${uri.path} before reading: ${String(error)}`)
+			const cached = writeBack && isConnectivityError(error) ? await writeBack.getCached(uri) : void 0
+			if (cached) {
+				this.log(`readFile: Serving ${uri.path} from the local cache`)
+				return cached
 			}
 		}
 
-		throw lastError
+		if (fileStat && writeBack) {
+			const cached = await writeBack.getCached(uri, fileStat.mtime)
+			if (cached) {
+				this.knownMtimes.set(uri.toString(), fileStat.mtime)
+				return cached
+			}
+		}
+
+		let content: Uint8Array
+		if (fileStat && fileStat.size >= this.getThresholdBytes("download.thresholdMegabytes", DEFAULT_DOWNLOAD_THRESHOLD_MB)) {
+			// The signed download checks the exact size, which a cached listing may no longer match
+			fileStat = await this.stat(uri, true)
+			content = await this.downloadFile(uri, fileStat.size)
+		} else {
+			content = await this.readContents(uri, `readFile: ${uri}`)
+		}
+		if (fileStat && fileStat.type & vscode.FileType.File) {
+			this.knownMtimes.set(uri.toString(), fileStat.mtime)
+		} else {
+			await this.recordRemoteVersion(uri)
+		}
+		await this.cacheContent(uri, content)
+		return content
+	}
+
+	/**
+	 * Reads a file through the contents endpoint, without the stat and version
+	 * tracking `readFile` does.
+	 */
+	public async readContents(uri: vscode.Uri, operation = `contents: ${uri}`): Promise<Uint8Array> {
+		const connection = this.ensureConnected(uri)
+
+		const response = await this.request(connection, `${connection.serverApiUrl}/contents?file=${encodeURIComponent(uri.path)}`)
+		await this.forConnection(operation, response, connection)
+		return new Uint8Array(await response.arrayBuffer())
 	}
 
 	public async rename(oldUri: vscode.Uri, newUri: vscode.Uri, options: {overwrite: boolean} = {overwrite: false}): Promise<void> {
-		this.ensureConnected()
+		this.ensureConnected(oldUri)
+		if (oldUri.authority !== newUri.authority) {
+			throw vscode.FileSystemError.Unavailable("Moving files between servers is not supported, copy them instead.")
+		}
 
-		if (options.overwrite) {
-			try {
-				await this.delete(newUri)
-			} catch {}
+		if (options.overwrite && oldUri.path !== newUri.path && await this.exists(newUri)) {
+			await this.withReplaced(newUri, () => this.renameMany([{from: oldUri, to: newUri}]))
+			return
+		}
+
+		await this.renameMany([{from: oldUri, to: newUri}])
+	}
+
+	/**
+	 * Moves entries of one server with a single `/rename` request. The
+	 * destinations must not exist yet.
+	 */
+	public async renameMany(renames: Array<{from: vscode.Uri, to: vscode.Uri}>): Promise<void> {
+		if (renames.length === 0) {
+			return
+		}
+
+		const connection = this.ensureConnected(renames[0].from)
+		if (renames.some(({from, to}) => from.authority !== renames[0].from.authority || to.authority !== from.authority)) {
+			throw vscode.FileSystemError.Unavailable("Moving files between servers is not supported, copy them instead.")
 		}
 
-		const response = await fetch(proxyUrl(`${this.state.serverApiUrl}/rename`), {
+		const response = await this.request(connection, `${connection.serverApiUrl}/rename`, {
 			method: "PUT",
 			headers: {
-				"Content-Type": "application/json",
-				Authorization: this.state.authHeader
+				"Content-Type": "application/json"
 			},
 			body: JSON.stringify({
 				root: "/",
-				files: [{
-					from: removeStartSlash(oldUri.path),
-					to: removeStartSlash(newUri.path)
-				}]
+				files: renames.map(({from, to}) => ({
+					from: removeStartSlash(from.path),
+					to: removeStartSlash(to.path)
+				}))
 			})
 		})
-		await this.forConnection(`rename: ${oldUri} -> ${newUri}`, response)
+		const operation = renames.length === 1 ? `rename: ${renames[0].from} -> ${renames[0].to}` : `rename: ${renames.length} entries`
+		await this.forConnection(operation, response, connection)
+		for (const {from, to} of renames) {
+			this.listings.invalidate(from)
+			this.listings.invalidate(to)
+		}
 	}
 
-	public async stat(uri: vscode.Uri): Promise<vscode.FileStat> {
-		this.ensureConnected()
+	/** Stats `uri` from the cached listing of its parent, or from a new one when `fresh` is set. */
+	public async stat(uri: vscode.Uri, fresh = false): Promise<vscode.FileStat> {
+		this.ensureConnected(uri)
 
-		const cacheKey = `stat:${uri.toString()}`
-		const cached = this.responseCache.get(cacheKey)
-		if (cached) {
-			const cacheHits = this.responseCacheHits.get(cacheKey) ?? 0
-			this.responseCacheHits.set(cacheKey, cacheHits + 1)
-			return cached
+		const pending = this.getPendingWrite(uri)
+		if (pending) {
+			return {
+				ctime: pending.queuedAt,
+				mtime: pending.queuedAt,
+				size: pending.size,
+				type: vscode.FileType.File
+			}
 		}
 
 		if (uri.path === "/") {
@@ -293,24 +742,8 @@ export class PterodactylFileSystemProvider implements vscode.FileSystemProvider
 		}
 
 		const folderPath = uri.path.split("/").slice(0, -1).join("/") || "/"
-		const response = await fetch(proxyUrl(`${this.state.serverApiUrl}/list?directory=${encodeURIComponent(folderPath)}`), {
-			headers: {
-				Authorization: this.state.authHeader,
-				Accept: "application/json"
-			}
-		})
-		await this.forConnection(`stat: ${uri}`, response)
-
-		const json = await response.json() as PterodactylFileResponse & PterodactylErrorResponse
-		if (!response.ok) {
-			if (json.errors[0]?.code === "DaemonConnectionException") {
-				throw vscode.FileSystemError.FileNotFound(uri)
-			}
-			throw vscode.FileSystemError.Unavailable(json.errors[0]?.detail ?? "Stat request failed")
-		}
-
 		const targetName = uri.path.split("/").pop()
-		const file = json.data.find(entry => entry.attributes.name === targetName)?.attributes
+		const file = (await this.listDirectory(uri.with({path: folderPath}), fresh)).find(entry => entry.name === targetName)
 		if (!file) {
 			throw vscode.FileSystemError.FileNotFound(uri)
 		}
@@ -323,20 +756,160 @@ export class PterodactylFileSystemProvider implements vscode.FileSystemProvider
 			type: this.getFileType(file.is_file, file.is_symlink)
 		}
 
-		this.responseCache.set(cacheKey, responseStat)
-		this.responseCacheHits.set(cacheKey, 0)
-		setTimeout(() => {
-			this.log(`${this.responseCacheHits.get(cacheKey)} cache hits for stat requests on ${uri.toString()}`)
-			this.responseCache.delete(cacheKey)
-			this.responseCacheHits.delete(cacheKey)
-		}, 10_000)
-
 		return responseStat
 	}
 
 	public async writeFile(uri: vscode.Uri, content: Uint8Array, options: {create: boolean, overwrite: boolean}): Promise<void> {
-		this.ensureConnected()
+		// Queued writes are uploaded in order, so later saves wait behind them, even once the setting is off.
+		// Conflicted writes only hold back later saves of the same file.
+		const store = this.writeBack
+		if (store && (store.getPending().some(item => !item.conflicted) || store.findPending(uri))) {
+			await this.enqueueWrite(store, uri, content, "Waiting for earlier pending uploads")
+			return
+		}
+
+		const writeBack = this.getWriteBack()
+		if (!writeBack) {
+			await this.writeRemote(uri, content, options)
+			return
+		}
+
+		try {
+			await this.writeRemote(uri, content, options)
+		} catch (error) {
+			if (!isConnectivityError(error)) {
+				throw error
+			}
+			await this.enqueueWrite(writeBack, uri, content, error instanceof Error ? error.message : String(error))
+			return
+		}
+		await this.cacheContent(uri, content)
+	}
+
+	/**
+	 * Uploads the queued writes in order, or only `only`. Stops at the first
+	 * failure and retries later when the panel was unreachable. A write that
+	 * conflicts with a remote change stays queued, marked as conflicted, and is
+	 * handed to the conflict resolver; whole-queue replays skip it from then on.
+	 */
+	public replayPendingWrites(only?: PendingUpload): Promise<void> {
+		if (!this.replaying) {
+			this.replaying = this.replayQueue(only).finally(() => {
+				this.replaying = void 0
+			})
+		}
+		return this.replaying
+	}
+
+	/** Retries the queued writes after `REPLAY_INTERVAL_MS`, unless a retry is already scheduled. */
+	public scheduleReplay(): void {
+		if (this.replayTimer || !this.writeBack?.getPending().some(item => !item.conflicted)) {
+			return
+		}
+
+		this.replayTimer = globalThis.setTimeout(() => {
+			this.replayTimer = void 0
+			this.replayPendingWrites().catch(error => {
+				this.log(`writeBack: Replay stopped: ${String(error)}`)
+			})
+		}, REPLAY_INTERVAL_MS)
+	}
+
+	private async replayQueue(only?: PendingUpload): Promise<void> {
+		const store = this.writeBack
+		if (!store) {
+			return
+		}
+
+		for (const item of only ? [only] : store.getPending().filter(candidate => !candidate.conflicted)) {
+			const uri = vscode.Uri.parse(item.uri)
+			const content = await store.readPending(item)
+			this.replayingId = item.id
+			try {
+				await this.writeRemote(uri, content, {create: true, overwrite: true}, true)
+			} catch (error) {
+				if (isConflictError(error)) {
+					this.log(`writeBack: ${uri.path} conflicts with a remote change, keeping it queued for the conflict resolver`)
+					await store.markFailed(item, error instanceof Error ? error.message : String(error), true)
+					continue
+				}
+				await store.markFailed(item, error instanceof Error ? error.message : String(error))
+				if (isConnectivityError(error)) {
+					this.scheduleReplay()
+				}
+				throw error
+			} finally {
+				this.replayingId = void 0
+			}
+
+			this.log(`writeBack: Uploaded queued ${uri.path}`)
+			await store.remove(item)
+			await this.cacheContent(uri, content)
+			this.notifyChanges([{type: vscode.FileChangeType.Changed, uri}])
+		}
+	}
+
+	/**
+	 * Uploads the queued write of `uri` on its own, for example once the user
+	 * chose to overwrite the remote change it conflicted with. Replays in flight
+	 * are waited for first, since they skip conflicted writes.
+	 */
+	public async retryPendingWrite(uri: vscode.Uri): Promise<void> {
+		while (this.replaying) {
+			try {
+				await this.replaying
+			} catch {}
+		}
+
+		const item = this.writeBack?.findPending(uri)
+		if (item) {
+			await this.replayPendingWrites(item)
+		}
+	}
 
+	/** Drops the queued write of `uri`, so the file shows the server version again. */
+	public async discardPendingWrite(uri: vscode.Uri): Promise<void> {
+		const item = this.writeBack?.findPending(uri)
+		if (item && this.writeBack) {
+			await this.writeBack.remove(item)
+			this.notifyChanges([{type: vscode.FileChangeType.Changed, uri}])
+		}
+	}
+
+	private async enqueueWrite(writeBack: WriteBackStore, uri: vscode.Uri, content: Uint8Array, reason: string): Promise<void> {
+		await writeBack.enqueue(uri, content, reason)
+		this.listings.invalidate(uri)
+		this.scheduleReplay()
+	}
+
+	private getWriteBack(): WriteBackStore | undefined {
+		return this.writeBack?.isEnabled() ? this.writeBack : void 0
+	}
+
+	/** The queued write of `uri`, whose content stands in for the remote file until it is uploaded. */
+	private getPendingWrite(uri: vscode.Uri): PendingUpload | undefined {
+		const pending = this.writeBack?.findPending(uri)
+		return pending && pending.id !== this.replayingId ? pending : void 0
+	}
+
+	private async cacheContent(uri: vscode.Uri, content: Uint8Array): Promise<void> {
+		const writeBack = this.getWriteBack()
+		const mtime = this.knownMtimes.get(uri.toString())
+		if (!writeBack || mtime === void 0) {
+			return
+		}
+
+		try {
+			await writeBack.cache(uri, mtime, content)
+		} catch (error) {
+			this.log(`writeBack: Failed to cache ${uri.path}: ${String(error)}`)
+		}
+	}
+
+	private async writeRemote(uri: vscode.Uri, content: Uint8Array, options: {create: boolean, overwrite: boolean}, queued = false): Promise<void> {
+		const connection = this.ensureConnected(uri)
+
+		const knownMtime = this.knownMtimes.get(uri.toString())
 		let fileExists = false
 		try {
 			const fileStat = await this.stat(uri)
@@ -357,11 +930,8 @@ export class PterodactylFileSystemProvider implements vscode.FileSystemProvider
 
 		if (fileExists === false && options.create) {
 			try {
-				const createResponse = await fetch(proxyUrl(`${this.state.serverApiUrl}/write?file=${uri.path}`), {
+				const createResponse = await this.request(connection, `${connection.serverApiUrl}/write?file=${uri.path}`, {
 					method: "POST",
-					headers: {
-						Authorization: this.state.authHeader
-					},
 					body: new Uint8Array(0)
 				})
 				this.log(`createFile attempt: ${createResponse.status} ${createResponse.statusText}`)
@@ -370,22 +940,186 @@ export class PterodactylFileSystemProvider implements vscode.FileSystemProvider
 			}
 		}
 
-		const response = await fetch(proxyUrl(`${this.state.serverApiUrl}/write?file=${uri.path}`), {
-			method: "POST",
+		if (fileExists && knownMtime !== void 0) {
+			this.listings.invalidate(uri)
+			const remoteStat = await this.stat(uri)
+			if (remoteStat.mtime !== knownMtime) {
+				this.log(`writeFile: Conflict on ${uri.path}, remote mtime ${remoteStat.mtime} differs from ${knownMtime}`)
+				this.conflictEmitter.fire({uri, content, knownMtime, remoteMtime: remoteStat.mtime, queued})
+				throw vscode.FileSystemError.Unavailable(`${uri.path} ${CONFLICT_MESSAGE}`)
+			}
+		}
+
+		if (content.byteLength >= this.getThresholdBytes("upload.thresholdMegabytes", DEFAULT_UPLOAD_THRESHOLD_MB)) {
+			await this.uploadFile(uri, content)
+		} else {
+			const response = await this.request(connection, `${connection.serverApiUrl}/write?file=${uri.path}`, {
+				method: "POST",
+				body: content,
+				retry: true
+			})
+			await this.forConnection(`writeFile: ${uri}`, response, connection)
+		}
+
+		this.listings.invalidate(uri)
+		await this.recordRemoteVersion(uri)
+	}
+
+	/**
+	 * Uploads a file as multipart form data to a signed Wings upload URL, which
+	 * handles files too large for `/files/write`. Cancelling the token aborts the
+	 * transfer.
+	 */
+	public async uploadFile(uri: vscode.Uri, content: Uint8Array, token?: vscode.CancellationToken): Promise<void> {
+		const connection = this.ensureConnected(uri)
+
+		const urlResponse = await this.request(connection, `${connection.serverApiUrl}/upload`, {
 			headers: {
-				Authorization: this.state.authHeader
-			},
-			body: content
+				Accept: "application/json"
+			}
+		})
+		await this.forConnection(`upload url: ${uri}`, urlResponse, connection)
+		const json = await urlResponse.json() as PterodactylSignedUrlResponse
+
+		const directoryPath = uri.path.split("/").slice(0, -1).join("/") || "/"
+		const form = new globalThis.FormData()
+		form.append("files", new globalThis.Blob([content]), uri.path.split("/").pop())
+
+		const controller = new globalThis.AbortController()
+		const cancellation = token?.onCancellationRequested(() => {
+			controller.abort()
 		})
-		await this.forConnection(`writeFile: ${uri}`, response)
+		try {
+			const response = await this.client.request(`${json.attributes.url}&directory=${encodeURIComponent(directoryPath)}`, {
+				method: "POST",
+				body: form,
+				signal: controller.signal,
+				proxyBase: connection.proxyBase,
+				timeoutMs: 0
+			})
+			await this.forConnection(`upload: ${uri} (${content.byteLength} bytes)`, response, connection)
+		} catch (error) {
+			if (token?.isCancellationRequested) {
+				throw new vscode.CancellationError()
+			}
+			throw error
+		} finally {
+			cancellation?.dispose()
+		}
+
+		this.listings.invalidate(uri)
+	}
+
+	/**
+	 * Streams a file from a signed Wings download URL and checks that the received
+	 * size matches `expectedSize`, which should come from a fresh `stat`.
+	 */
+	public async downloadFile(
+		uri: vscode.Uri,
+		expectedSize: number,
+		token?: vscode.CancellationToken,
+		progress?: vscode.Progress<{message?: string, increment?: number}>
+	): Promise<Uint8Array> {
+		const connection = this.ensureConnected(uri)
+
+		const urlResponse = await this.request(connection, `${connection.serverApiUrl}/download?file=${encodeURIComponent(uri.path)}`, {
+			headers: {
+				Accept: "application/json"
+			}
+		})
+		await this.forConnection(`download url: ${uri}`, urlResponse, connection)
+		const json = await urlResponse.json() as PterodactylSignedUrlResponse
+
+		const controller = new globalThis.AbortController()
+		const cancellation = token?.onCancellationRequested(() => {
+			controller.abort()
+		})
+		try {
+			// Download tokens are single use, so a failed transfer cannot be retried with the same URL
+			const response = await this.client.request(json.attributes.url, {signal: controller.signal, proxyBase: connection.proxyBase, retry: false, timeoutMs: 0})
+			await this.forConnection(`download: ${uri}`, response, connection)
+			if (!response.body) {
+				throw vscode.FileSystemError.Unavailable(`Empty download response for ${uri.path}`)
+			}
+
+			const chunks: Uint8Array[] = []
+			let received = 0
+			const reader = response.body.getReader()
+			for (let chunk = await reader.read(); !chunk.done; chunk = await reader.read()) {
+				chunks.push(chunk.value)
+				received += chunk.value.byteLength
+				progress?.report({increment: expectedSize > 0 ? chunk.value.byteLength / expectedSize * 100 : 0})
+			}
+
+			if (received !== expectedSize) {
+				throw vscode.FileSystemError.Unavailable(`Downloaded ${received} bytes of ${uri.path}, but the server reported ${expectedSize} bytes.`)
+			}
+
+			const content = new Uint8Array(received)
+			let offset = 0
+			for (const chunk of chunks) {
+				content.set(chunk, offset)
+				offset += chunk.byteLength
+			}
+			return content
+		} catch (error) {
+			if (token?.isCancellationRequested) {
+				throw new vscode.CancellationError()
+			}
+			throw error
+		} finally {
+			cancellation?.dispose()
+		}
+	}
+
+	private getThresholdBytes(setting: string, defaultMegabytes: number): number {
+		const megabytes = vscode.workspace.getConfiguration("pterodactyl-vsc").get<number>(setting) ?? defaultMegabytes
+		return Math.max(0, megabytes) * 1024 * 1024
+	}
+
+	/**
+	 * Marks the given remote modification time as seen, so the next save no longer
+	 * reports a conflict against it.
+	 */
+	public acceptRemoteVersion(uri: vscode.Uri, mtime: number): void {
+		this.knownMtimes.set(uri.toString(), mtime)
+	}
+
+	private async recordRemoteVersion(uri: vscode.Uri): Promise<void> {
+		try {
+			const fileStat = await this.stat(uri)
+			if (fileStat.type & vscode.FileType.File) {
+				this.knownMtimes.set(uri.toString(), fileStat.mtime)
+			}
+		} catch (error) {
+			this.log(`Failed to record remote version of ${uri.path}: ${String(error)}`)
+		}
 	}
 
 	public watch(resource: vscode.Uri, options: {readonly excludes: readonly string[], readonly recursive: boolean}): vscode.Disposable {
-		void resource
-		void options
-		return {
-			dispose: () => {}
+		let watcher = this.watchers.get(resource.authority)
+		if (!watcher) {
+			watcher = new PollingFileWatcher(this, this.log, resource.authority)
+			this.watchers.set(resource.authority, watcher)
+		}
+		return watcher.watch(resource, options)
+	}
+
+	public notifyChanges(events: vscode.FileChangeEvent[]): void {
+		for (const event of events) {
+			this.listings.invalidate(event.uri)
+		}
+		this.eventEmitter.fire(events)
+	}
+
+	public dispose(): void {
+		globalThis.clearTimeout(this.replayTimer)
+		for (const watcher of this.watchers.values()) {
+			watcher.dispose()
 		}
+		this.eventEmitter.dispose()
+		this.conflictEmitter.dispose()
+		this.authenticationEmitter.dispose()
 	}
 
 	private getFileType(isFile: boolean, isSymlink: boolean): vscode.FileType {
@@ -0,0 +1,95 @@
+import * as vscode from "vscode"
+
+import type {PterodactylFileAttributes} from "./fsProvider"
+import type {createLogger} from "./logger"
+
+const DEFAULT_TTL_SECONDS = 10
+
+interface ListingEntry {
+	listing: Promise<PterodactylFileAttributes[]>
+	expiresAt: number
+	hits: number
+}
+
+interface DirectoryListingCacheDependencies {
+	log: ReturnType<typeof createLogger>
+}
+
+const getParentKey = (key: string): string | undefined => {
+	const uri = vscode.Uri.parse(key)
+	return uri.path === "/" ? void 0 : uri.with({path: uri.path.split("/").slice(0, -1).join("/") || "/"}).toString()
+}
+
+/**
+ * Caches `/list` responses per directory for `cache.directoryTtlSeconds`. A
+ * listing that is still loading is shared by every caller, so `stat` on many
+ * siblings, `readDirectory` and the tree view cost a single request.
+ */
+export class DirectoryListingCache {
+	private readonly log: ReturnType<typeof createLogger>
+	private readonly entries = new Map<string, ListingEntry>()
+
+	public constructor(deps: DirectoryListingCacheDependencies) {
+		this.log = deps.log
+	}
+
+	/** Returns the cached listing of `directory`, or starts `load` and caches its result. */
+	public get(directory: vscode.Uri, load: () => Promise<PterodactylFileAttributes[]>, fresh = false): Promise<PterodactylFileAttributes[]> {
+		const key = directory.toString()
+		const cached = this.entries.get(key)
+		if (cached && !fresh && cached.expiresAt > Date.now()) {
+			cached.hits += 1
+			return cached.listing
+		}
+
+		if (cached && cached.expiresAt <= Date.now()) {
+			this.forget(key, cached)
+		}
+
+		const entry: ListingEntry = {listing: load(), expiresAt: Number.POSITIVE_INFINITY, hits: 0}
+		this.entries.set(key, entry)
+		entry.listing.then(() => {
+			entry.expiresAt = Date.now() + this.getTtlMs()
+		}, () => {
+			this.forget(key, entry)
+		})
+		return entry.listing
+	}
+
+	/**
+	 * Drops the listings that may no longer match after `uri` changed: the one of
+	 * its parent directory, its own, and those of everything below it.
+	 */
+	public invalidate(uri: vscode.Uri): void {
+		const key = uri.toString()
+		const parentKey = getParentKey(key)
+		if (parentKey) {
+			this.forget(parentKey)
+		}
+		for (const candidate of this.entries.keys()) {
+			if (candidate === key || candidate.startsWith(key.endsWith("/") ? key : `${key}/`)) {
+				this.forget(candidate)
+			}
+		}
+	}
+
+	public clear(): void {
+		this.entries.clear()
+	}
+
+	private forget(key: string, entry = this.entries.get(key)): void {
+		if (!entry || this.entries.get(key) !== entry) {
+			return
+		}
+
+		this.entries.delete(key)
+		if (entry.hits > 0) {
+			this.log(`${entry.hits} cache hits for the listing of ${key}`)
+		}
+	}
+
+	private getTtlMs(): number {
+		const seconds = vscode.workspace.getConfiguration("pterodactyl-vsc").get<number>("cache.directoryTtlSeconds") ?? DEFAULT_TTL_SECONDS
+		return Math.max(0, seconds) * 1000
+	}
+}
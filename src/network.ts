@@ -0,0 +1,155 @@
+import * as vscode from "vscode"
+
+import {requestServerApiAt, runServerTask, type ServerTaskOptions} from "./api"
+import type {PterodactylApiClient} from "./client"
+import type {createLogger} from "./logger"
+import {getActiveServerUri, resolveConnection, type RuntimeState} from "./state"
+
+interface AllocationAttributes {
+	id: number
+	ip: string
+	ip_alias: string | null
+	port: number
+	notes: string | null
+	is_default: boolean
+}
+
+interface AllocationResponse {
+	attributes: AllocationAttributes
+}
+
+interface AllocationListResponse {
+	data: AllocationResponse[]
+}
+
+interface NetworkManagerDependencies {
+	state: RuntimeState
+	log: ReturnType<typeof createLogger>
+	client: PterodactylApiClient
+}
+
+export class AllocationTreeItem extends vscode.TreeItem {
+	public readonly serverUri: vscode.Uri
+
+	public constructor(public readonly allocation: AllocationAttributes, serverUri: vscode.Uri) {
+		super(`${allocation.ip_alias ?? allocation.ip}:${allocation.port}`, vscode.TreeItemCollapsibleState.None)
+		this.serverUri = serverUri
+		this.id = `allocation-${serverUri.authority}-${allocation.id}`
+		this.contextValue = allocation.is_default ? "allocationPrimary" : "allocation"
+		this.description = [allocation.is_default ? "primary" : "", allocation.notes ?? ""].filter(Boolean).join(" · ")
+		this.iconPath = new vscode.ThemeIcon(allocation.is_default ? "star-full" : "plug")
+		this.tooltip = [
+			`IP: ${allocation.ip}`,
+			`Alias: ${allocation.ip_alias ?? "none"}`,
+			`Port: ${allocation.port}`,
+			`Notes: ${allocation.notes ?? "none"}`,
+			`Primary: ${allocation.is_default ? "yes" : "no"}`
+		].join("\n")
+	}
+
+	public getAddress(): string {
+		return `${this.allocation.ip_alias ?? this.allocation.ip}:${this.allocation.port}`
+	}
+}
+
+export class NetworkManager implements vscode.TreeDataProvider<AllocationTreeItem> {
+	private readonly eventEmitter = new vscode.EventEmitter<AllocationTreeItem | undefined | null | void>()
+	private readonly state: RuntimeState
+	private readonly log: ReturnType<typeof createLogger>
+	private readonly taskOptions: ServerTaskOptions
+	private readonly client: PterodactylApiClient
+
+	public readonly onDidChangeTreeData = this.eventEmitter.event
+
+	public constructor(deps: NetworkManagerDependencies) {
+		this.state = deps.state
+		this.log = deps.log
+		this.client = deps.client
+		this.taskOptions = {
+			log: deps.log,
+			onSettled: () => {
+				this.refresh()
+			}
+		}
+	}
+
+	public getTreeItem(element: AllocationTreeItem): vscode.TreeItem {
+		return element
+	}
+
+	public async getChildren(element?: AllocationTreeItem): Promise<AllocationTreeItem[]> {
+		const serverUri = getActiveServerUri()
+		const connection = resolveConnection(this.state, serverUri)
+		if (element || !connection.serverApiUrl || !connection.authHeader) {
+			return []
+		}
+
+		try {
+			const response = await requestServerApiAt(this.client, this.state, serverUri, "/network/allocations")
+			const json = await response.json() as AllocationListResponse
+			return json.data
+				.map(allocation => new AllocationTreeItem(allocation.attributes, serverUri))
+				.sort((left, right) => Number(right.allocation.is_default) - Number(left.allocation.is_default) || left.allocation.port - right.allocation.port)
+		} catch (error) {
+			this.log(`Failed to list allocations: ${String(error)}`)
+			return []
+		}
+	}
+
+	public refresh(): void {
+		this.eventEmitter.fire()
+	}
+
+	public async assignAllocation(serverUri: vscode.Uri = getActiveServerUri()): Promise<void> {
+		await runServerTask("Assigning a new allocation", this.taskOptions, async () => {
+			const response = await requestServerApiAt(this.client, this.state, serverUri, "/network/allocations", {method: "POST"})
+			const created = await response.json() as AllocationResponse
+			void vscode.window.showInformationMessage(`Assigned ${created.attributes.ip_alias ?? created.attributes.ip}:${created.attributes.port}`)
+		})
+	}
+
+	public async setPrimary(item: AllocationTreeItem): Promise<void> {
+		await runServerTask(`Making ${item.getAddress()} the primary allocation`, this.taskOptions, async () => {
+			await requestServerApiAt(this.client, this.state, item.serverUri, `/network/allocations/${item.allocation.id}/primary`, {method: "POST"})
+		})
+	}
+
+	public async editNotes(item: AllocationTreeItem): Promise<void> {
+		const notes = await vscode.window.showInputBox({
+			prompt: `Notes for ${item.getAddress()}`,
+			value: item.allocation.notes ?? "",
+			validateInput: (value: string): string | undefined => value.length <= 255 ? void 0 : "Notes can be at most 255 characters"
+		})
+		if (notes === void 0) {
+			return
+		}
+
+		await runServerTask(`Updating notes of ${item.getAddress()}`, this.taskOptions, async () => {
+			await requestServerApiAt(this.client, this.state, item.serverUri, `/network/allocations/${item.allocation.id}`, {
+				method: "POST",
+				body: {notes: notes.trim() || null}
+			})
+		})
+	}
+
+	public async deleteAllocation(item: AllocationTreeItem): Promise<void> {
+		if (item.allocation.is_default) {
+			void vscode.window.showErrorMessage("The primary allocation cannot be deleted. Make another allocation primary first.")
+			return
+		}
+
+		const confirmation = await vscode.window.showWarningMessage(`Remove allocation ${item.getAddress()} from the server?`, {modal: true}, "Delete")
+		if (confirmation !== "Delete") {
+			return
+		}
+
+		await runServerTask(`Deleting allocation ${item.getAddress()}`, this.taskOptions, async () => {
+			await requestServerApiAt(this.client, this.state, item.serverUri, `/network/allocations/${item.allocation.id}`, {method: "DELETE"})
+		})
+	}
+
+	public async copyAddress(item: AllocationTreeItem): Promise<void> {
+		await vscode.env.clipboard.writeText(item.getAddress())
+		void vscode.window.showInformationMessage(`Copied ${item.getAddress()} to the clipboard`)
+	}
+}
@@ -1,8 +1,10 @@
 import * as vscode from "vscode"
 
-import {buildServerApiUrl, getPanelUrl, normalizePanelUrl, proxyUrl, setApiKey, setPanelUrl, setServerId} from "./config"
+import type {PterodactylApiClient} from "./client"
+import {buildServerApiUrl, getServerId, normalizePanelUrl, setServerId} from "./config"
 import type {createLogger} from "./logger"
-import {connectRuntimeState, type RuntimeState} from "./state"
+import {isValidApiKey, type ProfileStore} from "./profiles"
+import {connectRuntimeState, getServerFolders, parseServerAuthority, type RuntimeState, toServerRootUri} from "./state"
 
 interface PanelErrorResponse {
 	errors: Array<{
@@ -30,37 +32,39 @@ interface ServerOption extends vscode.QuickPickItem {
 interface PanelServiceDependencies {
 	state: RuntimeState
 	log: ReturnType<typeof createLogger>
+	client: PterodactylApiClient
+	profileStore: ProfileStore
 	onConnected: () => void
 }
 
-const isValidApiKey = (value: string): boolean => /^[A-Za-z0-9_]{32,128}$/.test(value)
-
 export class PanelService {
 	private readonly state: RuntimeState
 	private readonly log: ReturnType<typeof createLogger>
+	private readonly client: PterodactylApiClient
+	private readonly profileStore: ProfileStore
 	private readonly onConnected: () => void
 
 	public constructor(deps: PanelServiceDependencies) {
 		this.state = deps.state
 		this.log = deps.log
+		this.client = deps.client
+		this.profileStore = deps.profileStore
 		this.onConnected = deps.onConnected
 	}
 
 	public async addPanel(): Promise<void> {
 		try {
-			const panelUrl = getPanelUrl()
-			const normalizedPanelUrl = normalizePanelUrl(panelUrl) ?? panelUrl
+			const profile = await this.profileStore.ensureActiveProfile()
+			const normalizedPanelUrl = normalizePanelUrl(profile.panelUrl) ?? profile.panelUrl
 			if (!normalizedPanelUrl) {
 				void vscode.window.showErrorMessage("Panel URL is invalid")
 				return
 			}
 
-			await setPanelUrl(normalizedPanelUrl)
-
-			let apiKey = vscode.workspace.getConfiguration("pterodactyl-vsc").get<string>("apiKey")
+			let apiKey = await this.profileStore.getApiKey(profile)
 			if (!apiKey) {
 				apiKey = await vscode.window.showInputBox({
-					prompt: "Enter your Pterodactyl API key",
+					prompt: `Enter your Pterodactyl API key for profile "${profile.name}"`,
 					placeHolder: "Enter your Pterodactyl panel client API key here...",
 					validateInput: (value: string): string | undefined => {
 						const normalized = value.trim()
@@ -94,11 +98,12 @@ export class PanelService {
 
 			let response: Response
 			try {
-				response = await fetch(proxyUrl(`${panelRootUrl}/api/client/`), {
+				response = await this.client.request(`${panelRootUrl}/api/client/`, {
 					headers: {
 						Accept: "application/json",
 						Authorization: `Bearer ${apiKey}`
-					}
+					},
+					proxyBase: profile.proxyUrl
 				})
 			} catch (error) {
 				this.log(String(error))
@@ -123,7 +128,8 @@ export class PanelService {
 			}
 
 			const json = await response.json() as PanelServersResponse
-			await setApiKey(apiKey)
+			await this.profileStore.setApiKey(profile, apiKey)
+			this.state.profiles.set(profile.name, {panelUrl: panelRootUrl, authHeader: `Bearer ${apiKey}`, proxyBase: profile.proxyUrl})
 			this.log(`Connected successfully, ${json.data.length} servers found`)
 
 			const selectedServer = await vscode.window.showQuickPick(
@@ -142,21 +148,32 @@ export class PanelService {
 			}
 
 			const server = selectedServer.server
-			connectRuntimeState(this.state, panelRootUrl, server.attributes.identifier, apiKey)
-			this.log(`Using server identifier: ${server.attributes.identifier}`)
-			this.log(`Setting server api URL to ${buildServerApiUrl(panelRootUrl, server.attributes.identifier)}`)
-
-			await Promise.all([
-				setPanelUrl(panelRootUrl),
-				setServerId(server.attributes.identifier)
-			])
-
-			const workspaceName = `Pterodactyl - ${server.attributes.name}`
-			this.log(`Setting workspace name to: ${workspaceName}`)
-			vscode.workspace.updateWorkspaceFolders(0, 0, {
-				uri: vscode.Uri.parse("pterodactyl:/"),
-				name: workspaceName
+			const defaultServerId = getServerId()
+			const serverFolders = getServerFolders()
+			const alreadyOpen = serverFolders.some(folder => {
+				const authority = parseServerAuthority(folder.uri.authority)
+				return (authority?.serverId ?? defaultServerId) === server.attributes.identifier && (authority?.profile ?? profile.name) === profile.name
 			})
+			this.log(`Using server identifier: ${server.attributes.identifier}`)
+
+			// A `pterodactyl:/` folder without authority is bound to the default server, keep it pointing there.
+			if (!serverFolders.some(folder => !folder.uri.authority) || defaultServerId === server.attributes.identifier) {
+				connectRuntimeState(this.state, panelRootUrl, server.attributes.identifier, apiKey)
+				this.state.proxyBase = profile.proxyUrl
+				this.log(`Setting server api URL to ${buildServerApiUrl(panelRootUrl, server.attributes.identifier)}`)
+				await setServerId(server.attributes.identifier)
+			}
+
+			if (alreadyOpen) {
+				this.log(`Server ${server.attributes.identifier} is already open in the workspace`)
+			} else {
+				const workspaceName = `Pterodactyl - ${server.attributes.name}`
+				this.log(`Adding workspace folder: ${workspaceName}`)
+				vscode.workspace.updateWorkspaceFolders(vscode.workspace.workspaceFolders?.length ?? 0, 0, {
+					uri: toServerRootUri({serverId: server.attributes.identifier, profile: profile.name}),
+					name: workspaceName
+				})
+			}
 
 			await vscode.commands.executeCommand("setContext", "pterodactyl-connected", true)
 			this.onConnected()
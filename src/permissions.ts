@@ -0,0 +1,97 @@
+import * as vscode from "vscode"
+
+import type {PterodactylFileSystemProvider} from "./fsProvider"
+import type {createLogger} from "./logger"
+
+const PERMISSION_BITS = [
+	{label: "Owner: read", bit: 0o400},
+	{label: "Owner: write", bit: 0o200},
+	{label: "Owner: execute", bit: 0o100},
+	{label: "Group: read", bit: 0o40},
+	{label: "Group: write", bit: 0o20},
+	{label: "Group: execute", bit: 0o10},
+	{label: "Others: read", bit: 0o4},
+	{label: "Others: write", bit: 0o2},
+	{label: "Others: execute", bit: 0o1}
+]
+
+const OCTAL_ACTION = "Enter octal mode"
+const CHECKBOX_ACTION = "Choose read/write/execute"
+
+interface PermissionCommandsDependencies {
+	fsProvider: PterodactylFileSystemProvider
+	log: ReturnType<typeof createLogger>
+}
+
+const toSymbolicMode = (mode: number): string => PERMISSION_BITS.map(({bit}, index) => mode & bit ? "rwx"[index % 3] : "-").join("")
+
+export class PermissionCommands {
+	private readonly fsProvider: PterodactylFileSystemProvider
+	private readonly log: ReturnType<typeof createLogger>
+
+	public constructor(deps: PermissionCommandsDependencies) {
+		this.fsProvider = deps.fsProvider
+		this.log = deps.log
+	}
+
+	public async changePermissions(uris: vscode.Uri[]): Promise<void> {
+		if (uris.length === 0) {
+			return
+		}
+
+		const currentMode = await this.getCurrentMode(uris[0])
+		const subject = uris.length === 1 ? `"${uris[0].path.split("/").pop()}"` : `${uris.length} items`
+		const current = currentMode === void 0 ? "unknown" : `${toSymbolicMode(currentMode)} (${currentMode.toString(8).padStart(3, "0")})`
+
+		const method = await vscode.window.showQuickPick([OCTAL_ACTION, CHECKBOX_ACTION], {
+			title: `Change permissions of ${subject}`,
+			placeHolder: `Current mode: ${current}`
+		})
+		if (!method) {
+			return
+		}
+
+		const mode = method === OCTAL_ACTION ? await this.promptOctalMode(currentMode) : await this.promptModeBits(currentMode)
+		if (mode === void 0) {
+			return
+		}
+
+		const octal = mode.toString(8).padStart(3, "0")
+		try {
+			await vscode.window.withProgress({location: vscode.ProgressLocation.Notification, title: `Setting permissions of ${subject} to ${octal}`}, async () => {
+				await this.fsProvider.chmod(uris, octal)
+			})
+		} catch (error) {
+			this.log(`chmod ${octal} failed: ${String(error)}`)
+			void vscode.window.showErrorMessage(`Failed to change permissions: ${error instanceof Error ? error.message : String(error)}`)
+		}
+	}
+
+	private async getCurrentMode(uri: vscode.Uri): Promise<number | undefined> {
+		try {
+			const files = await this.fsProvider.listDirectory(uri.with({path: uri.path.split("/").slice(0, -1).join("/") || "/"}))
+			const file = files.find(candidate => candidate.name === uri.path.split("/").pop())
+			return file ? Number.parseInt(file.mode_bits, 8) & 0o777 : void 0
+		} catch (error) {
+			this.log(`Failed to read the mode of ${uri.path}: ${String(error)}`)
+			return void 0
+		}
+	}
+
+	private async promptOctalMode(currentMode: number | undefined): Promise<number | undefined> {
+		const value = await vscode.window.showInputBox({
+			prompt: "Octal mode",
+			value: currentMode === void 0 ? "" : currentMode.toString(8).padStart(3, "0"),
+			validateInput: (input: string): string | undefined => /^[0-7]{3}$/.test(input.trim()) ? void 0 : "Enter three octal digits, e.g. 755"
+		})
+		return value ? Number.parseInt(value.trim(), 8) : void 0
+	}
+
+	private async promptModeBits(currentMode: number | undefined): Promise<number | undefined> {
+		const selection = await vscode.window.showQuickPick(
+			PERMISSION_BITS.map(({label, bit}) => ({label, bit, picked: currentMode !== void 0 && (currentMode & bit) !== 0})),
+			{canPickMany: true, placeHolder: "Select the permissions to grant"}
+		)
+		return selection?.reduce((mode, {bit}) => mode | bit, 0)
+	}
+}
@@ -0,0 +1,260 @@
+import * as vscode from "vscode"
+
+import {clearLegacyApiKey, getApiKey, getPanelUrl, getProxyBase, normalizePanelUrl} from "./config"
+import type {createLogger} from "./logger"
+
+const PROFILES_KEY = "pterodactyl-vsc.profiles"
+const ACTIVE_PROFILE_KEY = "pterodactyl-vsc.activeProfile"
+const SECRET_PREFIX = "pterodactyl-vsc.apiKey."
+const DEFAULT_PROFILE_NAME = "Default"
+
+export interface PanelProfile {
+	id: string
+	name: string
+	panelUrl: string
+	proxyUrl?: string
+}
+
+export const isValidApiKey = (value: string): boolean => /^[A-Za-z0-9_]{32,128}$/.test(value)
+
+const validateApiKeyInput = (value: string): string | undefined => {
+	const normalized = value.trim()
+	if (!normalized) {
+		return "Enter a valid API key"
+	}
+	return isValidApiKey(normalized) ? void 0 : "Invalid API key format"
+}
+
+const validatePanelUrlInput = (value: string): string | undefined => {
+	return /^https?:\/\/[^/]+/.test(value.trim()) ? void 0 : "Enter a URL starting with http:// or https://"
+}
+
+const validateProxyUrlInput = (value: string): string | undefined => {
+	return !value.trim() || /^https?:\/\/.+/.test(value.trim()) ? void 0 : "Enter a URL starting with http:// or https://, or leave empty"
+}
+
+/**
+ * Panel profiles: the profile list lives in global state, API keys only ever go
+ * to `context.secrets`, keyed by the profile ID so renames never move secrets.
+ */
+export class ProfileStore {
+	private readonly changeEmitter = new vscode.EventEmitter<void>()
+	private readonly context: vscode.ExtensionContext
+	private readonly log: ReturnType<typeof createLogger>
+
+	public readonly onDidChange = this.changeEmitter.event
+
+	public constructor(context: vscode.ExtensionContext, log: ReturnType<typeof createLogger>) {
+		this.context = context
+		this.log = log
+		context.subscriptions.push(this.changeEmitter)
+	}
+
+	/**
+	 * Moves a plain-text `pterodactyl-vsc.apiKey` setting into secret storage and
+	 * removes it from settings.json.
+	 */
+	public async migrateLegacyApiKey(): Promise<void> {
+		const legacyApiKey = getApiKey()
+		if (!legacyApiKey) {
+			return
+		}
+
+		const profile = this.getActiveProfile() ?? await this.saveProfile({
+			id: this.createProfileId(),
+			name: DEFAULT_PROFILE_NAME,
+			panelUrl: getPanelUrl(),
+			proxyUrl: getProxyBase().trim() || void 0
+		})
+		const savedApiKey = await this.getApiKey(profile)
+		await this.setActiveProfile(profile)
+		if (savedApiKey && savedApiKey !== legacyApiKey) {
+			this.log(`Kept the API key in settings: profile "${profile.name}" already has a different one`)
+			void this.offerLegacyApiKey(profile, legacyApiKey)
+			return
+		}
+
+		await this.setApiKey(profile, legacyApiKey)
+		await clearLegacyApiKey()
+		this.log(`Migrated the API key from settings into profile "${profile.name}"`)
+	}
+
+	public getProfiles(): PanelProfile[] {
+		return this.context.globalState.get<PanelProfile[]>(PROFILES_KEY) ?? []
+	}
+
+	public getProfileByName(name: string): PanelProfile | undefined {
+		return this.getProfiles().find(profile => profile.name === name)
+	}
+
+	public getActiveProfile(): PanelProfile | undefined {
+		const profiles = this.getProfiles()
+		const activeId = this.context.globalState.get<string>(ACTIVE_PROFILE_KEY)
+		return profiles.find(profile => profile.id === activeId) ?? profiles[0]
+	}
+
+	/**
+	 * Returns the active profile, creating the default one for the configured
+	 * panel URL when no profile exists yet.
+	 */
+	public async ensureActiveProfile(): Promise<PanelProfile> {
+		const activeProfile = this.getActiveProfile()
+		if (activeProfile) {
+			return activeProfile
+		}
+
+		const profile = await this.saveProfile({
+			id: this.createProfileId(),
+			name: DEFAULT_PROFILE_NAME,
+			panelUrl: getPanelUrl()
+		})
+		await this.setActiveProfile(profile)
+		return profile
+	}
+
+	public async setActiveProfile(profile: PanelProfile): Promise<void> {
+		await this.context.globalState.update(ACTIVE_PROFILE_KEY, profile.id)
+		this.changeEmitter.fire()
+	}
+
+	public async saveProfile(profile: PanelProfile): Promise<PanelProfile> {
+		const profiles = this.getProfiles().filter(candidate => candidate.id !== profile.id)
+		await this.context.globalState.update(PROFILES_KEY, [...profiles, profile])
+		this.changeEmitter.fire()
+		return profile
+	}
+
+	public async deleteProfile(profile: PanelProfile): Promise<void> {
+		await this.context.secrets.delete(`${SECRET_PREFIX}${profile.id}`)
+		await this.context.globalState.update(PROFILES_KEY, this.getProfiles().filter(candidate => candidate.id !== profile.id))
+		if (this.context.globalState.get<string>(ACTIVE_PROFILE_KEY) === profile.id) {
+			await this.context.globalState.update(ACTIVE_PROFILE_KEY, void 0)
+		}
+		this.changeEmitter.fire()
+	}
+
+	public async getApiKey(profile: PanelProfile): Promise<string | undefined> {
+		return this.context.secrets.get(`${SECRET_PREFIX}${profile.id}`)
+	}
+
+	public async setApiKey(profile: PanelProfile, apiKey: string | undefined): Promise<void> {
+		if (apiKey) {
+			await this.context.secrets.store(`${SECRET_PREFIX}${profile.id}`, apiKey)
+		} else {
+			await this.context.secrets.delete(`${SECRET_PREFIX}${profile.id}`)
+		}
+		this.changeEmitter.fire()
+	}
+
+	public async addProfile(): Promise<PanelProfile | undefined> {
+		const name = await vscode.window.showInputBox({
+			prompt: "Profile name",
+			placeHolder: "e.g. Production panel",
+			validateInput: (value: string): string | undefined => this.validateProfileName(value)
+		})
+		if (!name) {
+			return void 0
+		}
+
+		const panelUrl = await vscode.window.showInputBox({
+			prompt: "Panel URL",
+			value: getPanelUrl(),
+			validateInput: validatePanelUrlInput
+		})
+		if (!panelUrl) {
+			return void 0
+		}
+
+		const apiKey = await vscode.window.showInputBox({
+			prompt: "Client API key for this panel",
+			placeHolder: "Found in Account Settings -> API Credentials",
+			password: true,
+			validateInput: validateApiKeyInput
+		})
+		if (!apiKey) {
+			return void 0
+		}
+
+		const proxyUrl = await vscode.window.showInputBox({
+			prompt: "Optional proxy URL prefix (leave empty for direct requests)",
+			placeHolder: "https://example.com/?url=",
+			validateInput: validateProxyUrlInput
+		})
+		if (proxyUrl === void 0) {
+			return void 0
+		}
+
+		const profile = await this.saveProfile({
+			id: this.createProfileId(),
+			name: name.trim(),
+			panelUrl: normalizePanelUrl(panelUrl) ?? panelUrl,
+			proxyUrl: proxyUrl.trim() || void 0
+		})
+		await this.setApiKey(profile, apiKey.trim())
+		this.log(`Added profile "${profile.name}"`)
+		return profile
+	}
+
+	public async pickProfile(placeHolder: string): Promise<PanelProfile | undefined> {
+		const activeProfile = this.getActiveProfile()
+		const selection = await vscode.window.showQuickPick(
+			this.getProfiles().map(profile => ({
+				label: profile.name,
+				description: profile.panelUrl,
+				detail: profile.id === activeProfile?.id ? "Active profile" : void 0,
+				profile
+			})),
+			{placeHolder}
+		)
+		return selection?.profile
+	}
+
+	public async renameProfile(profile: PanelProfile): Promise<PanelProfile | undefined> {
+		const name = await vscode.window.showInputBox({
+			prompt: `Rename profile "${profile.name}"`,
+			value: profile.name,
+			validateInput: (value: string): string | undefined => value.trim() === profile.name ? void 0 : this.validateProfileName(value)
+		})
+		if (!name || name.trim() === profile.name) {
+			return void 0
+		}
+		return this.saveProfile({...profile, name: name.trim()})
+	}
+
+	/**
+	 * Asks which key to keep when settings.json holds an API key that differs from
+	 * the one saved for `profile`. The settings key stays untouched until then.
+	 */
+	private async offerLegacyApiKey(profile: PanelProfile, legacyApiKey: string): Promise<void> {
+		const useSettingsAction = "Use the settings key"
+		const keepSavedAction = "Keep the saved key"
+		const selection = await vscode.window.showWarningMessage(
+			`settings.json contains an API key that differs from the one saved for profile "${profile.name}". Which one should the profile use?`,
+			useSettingsAction,
+			keepSavedAction
+		)
+		if (selection === useSettingsAction) {
+			await this.setApiKey(profile, legacyApiKey)
+		} else if (selection !== keepSavedAction) {
+			return
+		}
+
+		await clearLegacyApiKey()
+		this.log(`Resolved the API key in settings for profile "${profile.name}": ${selection}`)
+	}
+
+	private createProfileId(): string {
+		return `${Date.now().toString(36)}${Math.random().toString(36).slice(2, 8)}`
+	}
+
+	private validateProfileName(value: string): string | undefined {
+		const name = value.trim()
+		if (!name) {
+			return "Enter a profile name"
+		}
+		if (name.includes("@")) {
+			return "Profile names cannot contain \"@\""
+		}
+		return this.getProfileByName(name) ? "A profile with this name already exists" : void 0
+	}
+}
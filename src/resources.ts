@@ -0,0 +1,347 @@
+import * as vscode from "vscode"
+
+import {requestServerApi} from "./api"
+import type {PterodactylApiClient} from "./client"
+import {toServerBaseUrl} from "./config"
+import {formatBytes, formatDuration} from "./format"
+import type {createLogger} from "./logger"
+import {getActiveServerUri, resolveConnection, type RuntimeState} from "./state"
+
+const HISTORY_LENGTH = 60
+
+interface ResourceUsageResponse {
+	attributes: {
+		current_state: string
+		resources: {
+			memory_bytes: number
+			cpu_absolute: number
+			disk_bytes: number
+			network_rx_bytes: number
+			network_tx_bytes: number
+			uptime: number
+		}
+	}
+}
+
+interface ServerLimitsResponse {
+	attributes: {
+		name: string
+		limits: {
+			memory: number
+			disk: number
+			cpu: number
+		}
+	}
+}
+
+export interface ResourceSample {
+	timestamp: number
+	state: string
+	cpu: number
+	memoryBytes: number
+	diskBytes: number
+	networkRxBytes: number
+	networkTxBytes: number
+	rxBytesPerSecond: number
+	txBytesPerSecond: number
+	uptime: number
+}
+
+/** Limits in bytes and CPU percent; `0` means unlimited, as in the panel. */
+export interface ResourceLimits {
+	name: string
+	memoryBytes: number
+	diskBytes: number
+	cpu: number
+}
+
+export interface ResourceUpdate {
+	authority: string
+	sample: ResourceSample
+	history: ResourceSample[]
+	limits: ResourceLimits | undefined
+}
+
+interface ResourceMonitorDependencies {
+	state: RuntimeState
+	log: ReturnType<typeof createLogger>
+	client: PterodactylApiClient
+}
+
+/**
+ * Single source of `/resources` data. The status bar drives the polling; every
+ * consumer, like the resources webview, listens to `onDidUpdate` instead of
+ * issuing requests of its own.
+ */
+export class ResourceMonitor implements vscode.Disposable {
+	private readonly updateEmitter = new vscode.EventEmitter<ResourceUpdate>()
+	private readonly state: RuntimeState
+	private readonly log: ReturnType<typeof createLogger>
+	private readonly client: PterodactylApiClient
+	private readonly historyByAuthority = new Map<string, ResourceSample[]>()
+	private readonly limitsByAuthority = new Map<string, ResourceLimits>()
+
+	public readonly onDidUpdate = this.updateEmitter.event
+
+	public constructor(deps: ResourceMonitorDependencies) {
+		this.state = deps.state
+		this.log = deps.log
+		this.client = deps.client
+	}
+
+	public async poll(serverUri: vscode.Uri): Promise<ResourceSample> {
+		const connection = resolveConnection(this.state, serverUri)
+		const response = await this.client.request(`${toServerBaseUrl(connection.serverApiUrl)}/resources`, {
+			headers: {
+				Authorization: connection.authHeader,
+				Accept: "application/json"
+			},
+			proxyBase: connection.proxyBase
+		})
+		if (!response.ok) {
+			throw new Error(`Resources request failed with ${response.status}`)
+		}
+
+		const {attributes} = await response.json() as ResourceUsageResponse
+		const history = this.historyByAuthority.get(serverUri.authority) ?? []
+		const previous = history.at(-1)
+		const timestamp = Date.now()
+		const elapsedSeconds = previous ? (timestamp - previous.timestamp) / 1000 : 0
+		const rate = (current: number, last: number | undefined): number => {
+			return elapsedSeconds > 0 && last !== void 0 ? Math.max(0, current - last) / elapsedSeconds : 0
+		}
+
+		const sample: ResourceSample = {
+			timestamp,
+			state: attributes.current_state,
+			cpu: attributes.resources.cpu_absolute,
+			memoryBytes: attributes.resources.memory_bytes,
+			diskBytes: attributes.resources.disk_bytes,
+			networkRxBytes: attributes.resources.network_rx_bytes,
+			networkTxBytes: attributes.resources.network_tx_bytes,
+			rxBytesPerSecond: rate(attributes.resources.network_rx_bytes, previous?.networkRxBytes),
+			txBytesPerSecond: rate(attributes.resources.network_tx_bytes, previous?.networkTxBytes),
+			uptime: attributes.resources.uptime
+		}
+		history.push(sample)
+		history.splice(0, Math.max(0, history.length - HISTORY_LENGTH))
+		this.historyByAuthority.set(serverUri.authority, history)
+
+		this.updateEmitter.fire({
+			authority: serverUri.authority,
+			sample,
+			history,
+			limits: await this.getLimits(serverUri)
+		})
+		return sample
+	}
+
+	public getLatest(serverUri: vscode.Uri): ResourceUpdate | undefined {
+		const history = this.historyByAuthority.get(serverUri.authority)
+		const sample = history?.at(-1)
+		if (!history || !sample) {
+			return void 0
+		}
+		return {authority: serverUri.authority, sample, history, limits: this.limitsByAuthority.get(serverUri.authority)}
+	}
+
+	public dispose(): void {
+		this.updateEmitter.dispose()
+		this.historyByAuthority.clear()
+		this.limitsByAuthority.clear()
+	}
+
+	private async getLimits(serverUri: vscode.Uri): Promise<ResourceLimits | undefined> {
+		const cached = this.limitsByAuthority.get(serverUri.authority)
+		if (cached) {
+			return cached
+		}
+
+		try {
+			const response = await requestServerApi(this.client, resolveConnection(this.state, serverUri), "")
+			const {attributes} = await response.json() as ServerLimitsResponse
+			const limits: ResourceLimits = {
+				name: attributes.name,
+				memoryBytes: attributes.limits.memory * 1024 * 1024,
+				diskBytes: attributes.limits.disk * 1024 * 1024,
+				cpu: attributes.limits.cpu
+			}
+			this.limitsByAuthority.set(serverUri.authority, limits)
+			return limits
+		} catch (error) {
+			this.log(`Failed to load server limits: ${String(error)}`)
+			return void 0
+		}
+	}
+}
+
+export const formatResourceSummary = (sample: ResourceSample): string => `CPU ${sample.cpu.toFixed(0)}% · RAM ${formatBytes(sample.memoryBytes)}`
+
+const withLimit = (current: string, limit: number | undefined, formatLimit: typeof formatBytes): string => {
+	if (limit === void 0) {
+		return current
+	}
+	return `${current} / ${limit > 0 ? formatLimit(limit) : "unlimited"}`
+}
+
+export class ResourceMonitorPanel implements vscode.Disposable {
+	private readonly monitor: ResourceMonitor
+	private panel: vscode.WebviewPanel | undefined
+	private subscription: vscode.Disposable | undefined
+
+	public constructor(monitor: ResourceMonitor) {
+		this.monitor = monitor
+	}
+
+	public show(): void {
+		if (this.panel) {
+			this.panel.reveal()
+			return
+		}
+
+		this.panel = vscode.window.createWebviewPanel("pterodactyl-resources", "Server Resources", vscode.ViewColumn.Active, {enableScripts: true})
+		this.panel.webview.html = this.getHtml(this.panel.webview)
+		this.subscription = this.monitor.onDidUpdate(update => {
+			if (update.authority === getActiveServerUri().authority) {
+				void this.post(update)
+			}
+		})
+		this.panel.webview.onDidReceiveMessage(() => {
+			// The webview asks for the latest sample once its script is ready.
+			const latest = this.monitor.getLatest(getActiveServerUri())
+			if (latest) {
+				void this.post(latest)
+			}
+		})
+		this.panel.onDidDispose(() => {
+			this.subscription?.dispose()
+			this.subscription = void 0
+			this.panel = void 0
+		})
+	}
+
+	public dispose(): void {
+		this.panel?.dispose()
+	}
+
+	private async post(update: ResourceUpdate): Promise<void> {
+		await this.panel?.webview.postMessage({
+			title: update.limits?.name ?? update.authority,
+			state: update.sample.state,
+			uptime: update.sample.uptime > 0 ? formatDuration(update.sample.uptime) : "offline",
+			charts: [
+				{
+					label: "CPU",
+					limit: update.limits?.cpu ?? 0,
+					values: update.history.map(sample => sample.cpu),
+					current: withLimit(`${update.sample.cpu.toFixed(1)}%`, update.limits?.cpu, limit => `${limit}%`)
+				},
+				{
+					label: "Memory",
+					limit: update.limits?.memoryBytes ?? 0,
+					values: update.history.map(sample => sample.memoryBytes),
+					current: withLimit(formatBytes(update.sample.memoryBytes), update.limits?.memoryBytes, formatBytes)
+				},
+				{
+					label: "Disk",
+					limit: update.limits?.diskBytes ?? 0,
+					values: update.history.map(sample => sample.diskBytes),
+					current: withLimit(formatBytes(update.sample.diskBytes), update.limits?.diskBytes, formatBytes)
+				},
+				{
+					label: "Network in",
+					limit: 0,
+					values: update.history.map(sample => sample.rxBytesPerSecond),
+					current: `${formatBytes(update.sample.rxBytesPerSecond)}/s`
+				},
+				{
+					label: "Network out",
+					limit: 0,
+					values: update.history.map(sample => sample.txBytesPerSecond),
+					current: `${formatBytes(update.sample.txBytesPerSecond)}/s`
+				}
+			]
+		})
+	}
+
+	private getHtml(webview: vscode.Webview): string {
+		const nonce = Math.random().toString(36).slice(2)
+		return `<!DOCTYPE html>
+<html lang="en">
+<head>
+	<meta charset="UTF-8">
+	<meta http-equiv="Content-Security-Policy" content="default-src 'none'; style-src ${webview.cspSource} 'unsafe-inline'; script-src 'nonce-${nonce}';">
+	<title>Server Resources</title>
+	<style>
+		body { font-family: var(--vscode-font-family); color: var(--vscode-foreground); }
+		.charts { display: grid; grid-template-columns: repeat(auto-fill, minmax(320px, 1fr)); gap: 16px; }
+		.chart { border: 1px solid var(--vscode-panel-border); padding: 8px; }
+		.chart header { display: flex; justify-content: space-between; margin-bottom: 4px; }
+		canvas { width: 100%; height: 120px; }
+		.muted { color: var(--vscode-descriptionForeground); }
+	</style>
+</head>
+<body>
+	<h2 id="title">Waiting for data...</h2>
+	<p class="muted" id="status"></p>
+	<div class="charts" id="charts"></div>
+	<script nonce="${nonce}">
+		const chartsElement = document.getElementById("charts")
+		const style = getComputedStyle(document.body)
+
+		const draw = (canvas, chart) => {
+			const context = canvas.getContext("2d")
+			const width = canvas.width = canvas.clientWidth * devicePixelRatio
+			const height = canvas.height = canvas.clientHeight * devicePixelRatio
+			const max = Math.max(chart.limit, ...chart.values, 1)
+			context.clearRect(0, 0, width, height)
+			if (chart.limit > 0) {
+				context.strokeStyle = style.getPropertyValue("--vscode-errorForeground")
+				context.setLineDash([4, 4])
+				context.beginPath()
+				context.moveTo(0, 1)
+				context.lineTo(width, 1)
+				context.stroke()
+				context.setLineDash([])
+			}
+			context.strokeStyle = style.getPropertyValue("--vscode-charts-blue") || "#3794ff"
+			context.lineWidth = 2 * devicePixelRatio
+			context.beginPath()
+			chart.values.forEach((value, index) => {
+				const x = chart.values.length > 1 ? index / (chart.values.length - 1) * width : width
+				const y = height - value / max * (height - 2)
+				if (index === 0) {
+					context.moveTo(x, y)
+				} else {
+					context.lineTo(x, y)
+				}
+			})
+			context.stroke()
+		}
+
+		window.addEventListener("message", event => {
+			const data = event.data
+			document.getElementById("title").textContent = data.title
+			document.getElementById("status").textContent = "State: " + data.state + " · Uptime: " + data.uptime
+			chartsElement.replaceChildren(...data.charts.map(chart => {
+				const section = document.createElement("section")
+				section.className = "chart"
+				const header = document.createElement("header")
+				const label = document.createElement("strong")
+				label.textContent = chart.label
+				const current = document.createElement("span")
+				current.textContent = chart.current
+				header.append(label, current)
+				const canvas = document.createElement("canvas")
+				section.append(header, canvas)
+				requestAnimationFrame(() => draw(canvas, chart))
+				return section
+			}))
+		})
+
+		acquireVsCodeApi().postMessage("ready")
+	</script>
+</body>
+</html>`
+	}
+}
@@ -0,0 +1,127 @@
+const REGEX_RULE_PATTERN = /^(not_)?regex:(.)([\s\S]*)\2([a-z]*)$/
+
+/**
+ * Splits a Laravel rule string on `|`, keeping `regex:` rules whose pattern
+ * contains a pipe together.
+ */
+const splitRules = (rules: string): string[] => {
+	const result: string[] = []
+	for (const part of rules.split("|")) {
+		const previous = result.at(-1)
+		if (previous && /^(not_)?regex:/.test(previous) && !REGEX_RULE_PATTERN.test(previous)) {
+			result[result.length - 1] = `${previous}|${part}`
+		} else {
+			result.push(part)
+		}
+	}
+	return result.map(rule => rule.trim()).filter(Boolean)
+}
+
+const toRegExp = (rule: string): RegExp | undefined => {
+	const match = REGEX_RULE_PATTERN.exec(rule)
+	if (!match) {
+		return void 0
+	}
+
+	try {
+		return new RegExp(match[3], match[4].replace(/[^imsu]/g, ""))
+	} catch {
+		return void 0
+	}
+}
+
+const isNumeric = (value: string): boolean => value.trim() !== "" && Number.isFinite(Number(value))
+
+/**
+ * Checks a value against the subset of Laravel validation rules eggs use for
+ * startup variables. Returns an error message, or `undefined` when the value
+ * passes. Unknown rules are left to the panel.
+ */
+export const validateLaravelRules = (value: string, rules: string): string | undefined => {
+	const parsedRules = splitRules(rules)
+	const ruleNames = new Set(parsedRules.map(rule => rule.split(":")[0]))
+	if (value === "") {
+		return ruleNames.has("required") ? "This value is required" : void 0
+	}
+
+	const numeric = ruleNames.has("integer") || ruleNames.has("numeric")
+	const measure = (): number => numeric ? Number(value) : value.length
+	const unit = numeric ? "" : " characters"
+
+	for (const rule of parsedRules) {
+		const separatorIndex = rule.indexOf(":")
+		const name = separatorIndex === -1 ? rule : rule.slice(0, separatorIndex)
+		const parameter = separatorIndex === -1 ? "" : rule.slice(separatorIndex + 1)
+
+		switch (name) {
+			case "integer":
+				if (!/^-?\d+$/.test(value)) {
+					return "Enter a whole number"
+				}
+				break
+			case "numeric":
+				if (!isNumeric(value)) {
+					return "Enter a number"
+				}
+				break
+			case "boolean":
+				if (!["0", "1", "true", "false"].includes(value)) {
+					return "Enter true, false, 1 or 0"
+				}
+				break
+			case "alpha_num":
+				if (!/^[\p{L}\p{N}]+$/u.test(value)) {
+					return "Use letters and numbers only"
+				}
+				break
+			case "alpha_dash":
+				if (!/^[\p{L}\p{N}_-]+$/u.test(value)) {
+					return "Use letters, numbers, dashes and underscores only"
+				}
+				break
+			case "url":
+				if (!/^[a-z][\d+.a-z-]*:\/\/\S+$/i.test(value)) {
+					return "Enter a valid URL"
+				}
+				break
+			case "min":
+				if (measure() < Number(parameter)) {
+					return `Must be at least ${parameter}${unit}`
+				}
+				break
+			case "max":
+				if (measure() > Number(parameter)) {
+					return `Must be at most ${parameter}${unit}`
+				}
+				break
+			case "between": {
+				const [min, max] = parameter.split(",").map(Number)
+				if (measure() < min || measure() > max) {
+					return `Must be between ${min} and ${max}${unit}`
+				}
+				break
+			}
+			case "in":
+				if (!parameter.split(",").includes(value)) {
+					return `Must be one of: ${parameter.split(",").join(", ")}`
+				}
+				break
+			case "not_in":
+				if (parameter.split(",").includes(value)) {
+					return `Cannot be one of: ${parameter.split(",").join(", ")}`
+				}
+				break
+			case "regex":
+			case "not_regex": {
+				const pattern = toRegExp(rule)
+				if (pattern && pattern.test(value) !== (name === "regex")) {
+					return `Invalid format, expected ${parameter}`
+				}
+				break
+			}
+			default:
+				break
+		}
+	}
+	return void 0
+}
@@ -0,0 +1,399 @@
+import * as vscode from "vscode"
+
+import {requestServerApiAt, runServerTask, type ServerTaskOptions} from "./api"
+import type {PterodactylApiClient} from "./client"
+import {formatDate} from "./format"
+import type {createLogger} from "./logger"
+import {getActiveServerUri, resolveConnection, type RuntimeState} from "./state"
+
+const CRON_FIELDS = [
+	{name: "minute", min: 0, max: 59},
+	{name: "hour", min: 0, max: 23},
+	{name: "day of month", min: 1, max: 31},
+	{name: "month", min: 1, max: 12},
+	{name: "day of week", min: 0, max: 7}
+]
+
+const POWER_ACTIONS = ["start", "stop", "restart", "kill"]
+const MAX_TIME_OFFSET_SECONDS = 900
+
+type TaskAction = "command" | "power" | "backup"
+
+interface ScheduleCron {
+	day_of_week: string
+	day_of_month: string
+	month: string
+	hour: string
+	minute: string
+}
+
+interface TaskAttributes {
+	id: number
+	sequence_id: number
+	action: TaskAction
+	payload: string
+	time_offset: number
+	is_queued: boolean
+	continue_on_failure: boolean
+}
+
+interface ScheduleAttributes {
+	id: number
+	name: string
+	cron: ScheduleCron
+	is_active: boolean
+	is_processing: boolean
+	only_when_online: boolean
+	last_run_at: string | null
+	next_run_at: string | null
+	relationships?: {
+		tasks: {
+			data: Array<{attributes: TaskAttributes}>
+		}
+	}
+}
+
+interface ScheduleListResponse {
+	data: Array<{attributes: ScheduleAttributes}>
+}
+
+interface ScheduleManagerDependencies {
+	state: RuntimeState
+	log: ReturnType<typeof createLogger>
+	client: PterodactylApiClient
+}
+
+const formatCron = (cron: ScheduleCron): string => [cron.minute, cron.hour, cron.day_of_month, cron.month, cron.day_of_week].join(" ")
+
+const isCronValueInRange = (value: string, min: number, max: number): boolean => {
+	const number = Number(value)
+	return /^\d+$/.test(value) && number >= min && number <= max
+}
+
+/**
+ * Validates a single cron field: `*`, values, `a-b` ranges, `/n` steps and comma
+ * separated lists of those, within the field's bounds.
+ */
+export const validateCronField = (value: string, min: number, max: number): boolean => {
+	return value.split(",").every(part => {
+		const [range, step, ...rest] = part.split("/")
+		if (rest.length > 0 || (step !== void 0 && !isCronValueInRange(step, 1, max))) {
+			return false
+		}
+		if (range === "*") {
+			return true
+		}
+
+		const bounds = range.split("-")
+		if (bounds.length > 2 || !bounds.every(bound => isCronValueInRange(bound, min, max))) {
+			return false
+		}
+		return bounds.length === 1 || Number(bounds[0]) <= Number(bounds[1])
+	})
+}
+
+const validateCronExpression = (value: string): string | undefined => {
+	const fields = value.trim().split(/\s+/)
+	if (fields.length !== CRON_FIELDS.length) {
+		return "Enter five fields: minute hour day-of-month month day-of-week"
+	}
+
+	const invalidIndex = fields.findIndex((field, index) => !validateCronField(field, CRON_FIELDS[index].min, CRON_FIELDS[index].max))
+	if (invalidIndex === -1) {
+		return void 0
+	}
+
+	const {name, min, max} = CRON_FIELDS[invalidIndex]
+	return `Invalid ${name} "${fields[invalidIndex]}" (allowed: ${min}-${max}, *, ranges, lists and steps)`
+}
+
+const describeTask = (task: TaskAttributes): string => {
+	switch (task.action) {
+		case "command":
+			return `Send command: ${task.payload}`
+		case "power":
+			return `Power action: ${task.payload}`
+		case "backup":
+			return task.payload ? `Create backup (ignoring ${task.payload.split("\n").join(", ")})` : "Create backup"
+		default:
+			return task.action
+	}
+}
+
+export class ScheduleTreeItem extends vscode.TreeItem {
+	public readonly serverUri: vscode.Uri
+
+	public constructor(public readonly schedule: ScheduleAttributes, serverUri: vscode.Uri) {
+		const tasks = schedule.relationships?.tasks.data ?? []
+		super(schedule.name, tasks.length > 0 ? vscode.TreeItemCollapsibleState.Collapsed : vscode.TreeItemCollapsibleState.None)
+		this.serverUri = serverUri
+		this.id = `schedule-${serverUri.authority}-${schedule.id}`
+		this.contextValue = "schedule"
+		this.description = `${formatCron(schedule.cron)}${schedule.is_active ? "" : " · inactive"}`
+		this.iconPath = new vscode.ThemeIcon(this.getIconId())
+		this.tooltip = [
+			schedule.name,
+			`Cron: ${formatCron(schedule.cron)}`,
+			`Active: ${schedule.is_active ? "yes" : "no"}`,
+			`Only when online: ${schedule.only_when_online ? "yes" : "no"}`,
+			`Last run: ${formatDate(schedule.last_run_at)}`,
+			`Next run: ${formatDate(schedule.next_run_at)}`
+		].join("\n")
+	}
+
+	private getIconId(): string {
+		if (this.schedule.is_processing) {
+			return "loading~spin"
+		}
+		return this.schedule.is_active ? "watch" : "circle-slash"
+	}
+}
+
+export class TaskTreeItem extends vscode.TreeItem {
+	public readonly parent: ScheduleTreeItem
+
+	public constructor(public readonly task: TaskAttributes, parent: ScheduleTreeItem) {
+		super(`${task.sequence_id}. ${describeTask(task)}`, vscode.TreeItemCollapsibleState.None)
+		this.parent = parent
+		this.id = `${parent.id}-task-${task.id}`
+		this.contextValue = "scheduleTask"
+		this.description = [
+			task.time_offset > 0 ? `after ${task.time_offset}s` : "",
+			task.continue_on_failure ? "continues on failure" : ""
+		].filter(Boolean).join(" · ")
+		this.iconPath = new vscode.ThemeIcon(task.is_queued ? "loading~spin" : {command: "terminal", power: "debug-start", backup: "archive"}[task.action] ?? "tasklist")
+	}
+}
+
+type ScheduleTreeNode = ScheduleTreeItem | TaskTreeItem
+
+export class ScheduleManager implements vscode.TreeDataProvider<ScheduleTreeNode> {
+	private readonly eventEmitter = new vscode.EventEmitter<ScheduleTreeNode | undefined | null | void>()
+	private readonly state: RuntimeState
+	private readonly log: ReturnType<typeof createLogger>
+	private readonly taskOptions: ServerTaskOptions
+	private readonly client: PterodactylApiClient
+
+	public readonly onDidChangeTreeData = this.eventEmitter.event
+
+	public constructor(deps: ScheduleManagerDependencies) {
+		this.state = deps.state
+		this.log = deps.log
+		this.client = deps.client
+		this.taskOptions = {
+			log: deps.log,
+			onSettled: () => {
+				this.refresh()
+			}
+		}
+	}
+
+	public getTreeItem(element: ScheduleTreeNode): vscode.TreeItem {
+		return element
+	}
+
+	public async getChildren(element?: ScheduleTreeNode): Promise<ScheduleTreeNode[]> {
+		if (element) {
+			if (element instanceof TaskTreeItem) {
+				return []
+			}
+			return (element.schedule.relationships?.tasks.data ?? [])
+				.map(task => task.attributes)
+				.sort((left, right) => left.sequence_id - right.sequence_id)
+				.map(task => new TaskTreeItem(task, element))
+		}
+
+		const serverUri = getActiveServerUri()
+		const connection = resolveConnection(this.state, serverUri)
+		if (!connection.serverApiUrl || !connection.authHeader) {
+			return []
+		}
+
+		try {
+			const response = await requestServerApiAt(this.client, this.state, serverUri, "/schedules?include=tasks")
+			const json = await response.json() as ScheduleListResponse
+			return json.data.map(schedule => new ScheduleTreeItem(schedule.attributes, serverUri))
+		} catch (error) {
+			this.log(`Failed to list schedules: ${String(error)}`)
+			return []
+		}
+	}
+
+	public refresh(): void {
+		this.eventEmitter.fire()
+	}
+
+	public async createSchedule(serverUri: vscode.Uri = getActiveServerUri()): Promise<void> {
+		const body = await this.promptSchedule()
+		if (!body) {
+			return
+		}
+
+		await runServerTask(`Creating schedule "${body.name}"`, this.taskOptions, async () => {
+			await requestServerApiAt(this.client, this.state, serverUri, "/schedules", {method: "POST", body})
+		})
+	}
+
+	public async editSchedule(item: ScheduleTreeItem): Promise<void> {
+		const body = await this.promptSchedule(item.schedule)
+		if (!body) {
+			return
+		}
+
+		await runServerTask(`Updating schedule "${body.name}"`, this.taskOptions, async () => {
+			await requestServerApiAt(this.client, this.state, item.serverUri, `/schedules/${item.schedule.id}`, {method: "POST", body})
+		})
+	}
+
+	public async deleteSchedule(item: ScheduleTreeItem): Promise<void> {
+		const confirmation = await vscode.window.showWarningMessage(`Delete schedule "${item.schedule.name}" and all of its tasks?`, {modal: true}, "Delete")
+		if (confirmation !== "Delete") {
+			return
+		}
+
+		await runServerTask(`Deleting schedule "${item.schedule.name}"`, this.taskOptions, async () => {
+			await requestServerApiAt(this.client, this.state, item.serverUri, `/schedules/${item.schedule.id}`, {method: "DELETE"})
+		})
+	}
+
+	public async runSchedule(item: ScheduleTreeItem): Promise<void> {
+		await runServerTask(`Running schedule "${item.schedule.name}"`, this.taskOptions, async () => {
+			await requestServerApiAt(this.client, this.state, item.serverUri, `/schedules/${item.schedule.id}/execute`, {method: "POST"})
+			void vscode.window.showInformationMessage(`Schedule "${item.schedule.name}" was queued to run`)
+		})
+	}
+
+	public async createTask(item: ScheduleTreeItem): Promise<void> {
+		const body = await this.promptTask()
+		if (!body) {
+			return
+		}
+
+		await runServerTask(`Adding task to "${item.schedule.name}"`, this.taskOptions, async () => {
+			await requestServerApiAt(this.client, this.state, item.serverUri, `/schedules/${item.schedule.id}/tasks`, {method: "POST", body})
+		})
+	}
+
+	public async editTask(item: TaskTreeItem): Promise<void> {
+		const body = await this.promptTask(item.task)
+		if (!body) {
+			return
+		}
+
+		await runServerTask(`Updating task in "${item.parent.schedule.name}"`, this.taskOptions, async () => {
+			await requestServerApiAt(this.client, this.state, item.parent.serverUri, `/schedules/${item.parent.schedule.id}/tasks/${item.task.id}`, {method: "POST", body})
+		})
+	}
+
+	public async deleteTask(item: TaskTreeItem): Promise<void> {
+		const confirmation = await vscode.window.showWarningMessage(`Delete task "${describeTask(item.task)}"?`, {modal: true}, "Delete")
+		if (confirmation !== "Delete") {
+			return
+		}
+
+		await runServerTask(`Deleting task from "${item.parent.schedule.name}"`, this.taskOptions, async () => {
+			await requestServerApiAt(this.client, this.state, item.parent.serverUri, `/schedules/${item.parent.schedule.id}/tasks/${item.task.id}`, {method: "DELETE"})
+		})
+	}
+
+	private async promptSchedule(existing?: ScheduleAttributes): Promise<Record<string, string | boolean> | undefined> {
+		const name = await vscode.window.showInputBox({
+			prompt: "Schedule name",
+			value: existing?.name,
+			validateInput: (value: string): string | undefined => value.trim() ? void 0 : "Enter a name"
+		})
+		if (!name) {
+			return void 0
+		}
+
+		const cron = await vscode.window.showInputBox({
+			prompt: "Cron expression (minute hour day-of-month month day-of-week)",
+			value: existing ? formatCron(existing.cron) : "0 4 * * *",
+			validateInput: validateCronExpression
+		})
+		if (!cron) {
+			return void 0
+		}
+
+		const active = await vscode.window.showQuickPick(["Active", "Inactive"], {placeHolder: "Enable the schedule?"})
+		if (!active) {
+			return void 0
+		}
+
+		const onlyWhenOnline = await vscode.window.showQuickPick(["Always run", "Only when the server is online"], {placeHolder: "When should it run?"})
+		if (!onlyWhenOnline) {
+			return void 0
+		}
+
+		const [minute, hour, dayOfMonth, month, dayOfWeek] = cron.trim().split(/\s+/)
+		return {
+			name: name.trim(),
+			minute,
+			hour,
+			day_of_month: dayOfMonth,
+			month,
+			day_of_week: dayOfWeek,
+			is_active: active === "Active",
+			only_when_online: onlyWhenOnline !== "Always run"
+		}
+	}
+
+	private async promptTask(existing?: TaskAttributes): Promise<Record<string, string | number | boolean> | undefined> {
+		const actionSelection = await vscode.window.showQuickPick([
+			{label: "Send command", action: "command" as const},
+			{label: "Send power action", action: "power" as const},
+			{label: "Create backup", action: "backup" as const}
+		], {placeHolder: existing ? `Current action: ${describeTask(existing)}` : "Task action"})
+		if (!actionSelection) {
+			return void 0
+		}
+
+		const payload = await this.promptTaskPayload(actionSelection.action, existing?.action === actionSelection.action ? existing.payload : void 0)
+		if (payload === void 0) {
+			return void 0
+		}
+
+		const timeOffset = await vscode.window.showInputBox({
+			prompt: `Time offset in seconds after the previous task (0-${MAX_TIME_OFFSET_SECONDS})`,
+			value: String(existing?.time_offset ?? 0),
+			validateInput: (value: string): string | undefined => isCronValueInRange(value.trim(), 0, MAX_TIME_OFFSET_SECONDS) ? void 0 : `Enter a number between 0 and ${MAX_TIME_OFFSET_SECONDS}`
+		})
+		if (!timeOffset) {
+			return void 0
+		}
+
+		const continueOnFailure = await vscode.window.showQuickPick(["Stop the schedule on failure", "Continue on failure"], {placeHolder: "If this task fails..."})
+		if (!continueOnFailure) {
+			return void 0
+		}
+
+		return {
+			action: actionSelection.action,
+			payload,
+			time_offset: Number(timeOffset.trim()),
+			continue_on_failure: continueOnFailure === "Continue on failure"
+		}
+	}
+
+	private async promptTaskPayload(action: TaskAction, existingPayload: string | undefined): Promise<string | undefined> {
+		switch (action) {
+			case "command":
+				return vscode.window.showInputBox({
+					prompt: "Console command to send",
+					value: existingPayload,
+					validateInput: (value: string): string | undefined => value.trim() ? void 0 : "Enter a command"
+				})
+			case "power":
+				return vscode.window.showQuickPick(POWER_ACTIONS, {placeHolder: "Power action"})
+			case "backup": {
+				const ignored = await vscode.window.showInputBox({
+					prompt: "Files to ignore (comma separated, optional)",
+					value: existingPayload?.split("\n").join(", ")
+				})
+				return ignored?.split(",").map(entry => entry.trim()).filter(Boolean).join("\n")
+			}
+			default:
+				return void 0
+		}
+	}
+}
@@ -0,0 +1,370 @@
+import * as vscode from "vscode"
+
+import {isArchiveName} from "./archives"
+import type {PterodactylFileSystemProvider} from "./fsProvider"
+import type {createLogger} from "./logger"
+import {globToRegExp} from "./watcher"
+
+const DEFAULT_CONCURRENCY = 4
+const DEFAULT_MAX_FILE_SIZE_KB = 1024
+const PREVIEW_CHARACTERS = 250
+const PREVIEW_LEADING_CHARACTERS = 40
+const BINARY_SNIFF_BYTES = 8000
+/** Entries listed at most by the search quick picks. */
+const MAX_QUICK_PICK_ITEMS = 10_000
+const QUICK_PICK_UPDATE_DELAY_MS = 200
+/** Extensions of files that are never read as text, in addition to archives. */
+const BINARY_NAME_PATTERN = /\.(jar|class|so|dll|exe|bin|dat|dat_old|db|sqlite|mca|mcr|nbt|png|jpe?g|gif|webp|ico|bmp|ogg|mp3|wav|mp4|pdf|woff2?|ttf|otf)$/i
+
+interface SearchFile {
+	uri: vscode.Uri
+	relativePath: string
+	size: number
+}
+
+interface TextMatch {
+	range: vscode.Range
+	preview: string
+}
+
+interface SearchSessionDependencies {
+	fsProvider: PterodactylFileSystemProvider
+	log: ReturnType<typeof createLogger>
+	folder: vscode.Uri
+	token: vscode.CancellationToken
+}
+
+interface SearchQuickPickItem extends vscode.QuickPickItem {
+	uri: vscode.Uri
+	range?: vscode.Range
+}
+
+interface SearchQuickPickDependencies {
+	fsProvider: PterodactylFileSystemProvider
+	log: ReturnType<typeof createLogger>
+	serverUri: vscode.Uri
+	title: string
+	placeholder: string
+}
+
+interface ServerSearchDependencies {
+	fsProvider: PterodactylFileSystemProvider
+	log: ReturnType<typeof createLogger>
+}
+
+const getSearchSetting = (setting: string, defaultValue: number): number => vscode.workspace.getConfiguration("pterodactyl-vsc").get<number>(`search.${setting}`) ?? defaultValue
+
+/** Patterns enabled in the `files.exclude` and `search.exclude` settings of `folder`. */
+const getConfiguredExcludes = (folder: vscode.Uri): string[] => ["files", "search"].flatMap(section => {
+	const patterns = vscode.workspace.getConfiguration(section, folder).get<Record<string, unknown>>("exclude") ?? {}
+	return Object.entries(patterns).filter(([, enabled]) => enabled === true).map(([pattern]) => pattern)
+})
+
+const isBinaryName = (path: string): boolean => isArchiveName(path) || BINARY_NAME_PATTERN.test(path)
+
+const isBinaryContent = (content: Uint8Array): boolean => content.subarray(0, BINARY_SNIFF_BYTES).includes(0)
+
+const buildSearchPattern = (text: string): RegExp => new RegExp(text.replace(/[$()*+.?[\\\]^{|}]/g, "\\$&"), "gi")
+
+/**
+ * Finds the matches of `pattern` in `text` line by line. Previews of long lines
+ * start shortly before the match.
+ */
+const findMatches = (text: string, pattern: RegExp): TextMatch[] => {
+	const matches: TextMatch[] = []
+	text.split("\n").forEach((rawLine, lineIndex) => {
+		const line = rawLine.replace(/\r$/, "")
+		pattern.lastIndex = 0
+		for (let match = pattern.exec(line); match; match = pattern.exec(line)) {
+			if (match[0] === "") {
+				pattern.lastIndex += 1
+				continue
+			}
+
+			const shift = line.length > PREVIEW_CHARACTERS ? Math.max(0, match.index - PREVIEW_LEADING_CHARACTERS) : 0
+			matches.push({
+				range: new vscode.Range(lineIndex, match.index, lineIndex, match.index + match[0].length),
+				preview: line.slice(shift, shift + PREVIEW_CHARACTERS).trim()
+			})
+		}
+	})
+	return matches
+}
+
+/**
+ * Runs queued tasks with at most `concurrency` of them in flight. Tasks may
+ * queue further tasks, and nothing new starts once the token is cancelled.
+ */
+class TaskQueue {
+	private readonly tasks: Array<() => Promise<void>> = []
+	private readonly concurrency: number
+	private readonly token: vscode.CancellationToken
+	private readonly log: ReturnType<typeof createLogger>
+	private active = 0
+	private resolveIdle: (() => void) | undefined
+
+	public constructor(concurrency: number, token: vscode.CancellationToken, log: ReturnType<typeof createLogger>) {
+		this.concurrency = Math.max(1, concurrency)
+		this.token = token
+		this.log = log
+	}
+
+	public push(task: () => Promise<void>): void {
+		this.tasks.push(task)
+		this.next()
+	}
+
+	/** Resolves once all queued tasks settled, or the running ones after cancellation. */
+	public drain(): Promise<void> {
+		return new Promise<void>(resolve => {
+			this.resolveIdle = resolve
+			this.next()
+		})
+	}
+
+	private next(): void {
+		while (this.active < this.concurrency && this.tasks.length > 0 && !this.token.isCancellationRequested) {
+			const task = this.tasks.shift() as () => Promise<void>
+			this.active += 1
+			void task()
+				.catch(error => {
+					if (!this.token.isCancellationRequested) {
+						this.log(`Search task failed: ${String(error)}`)
+					}
+				})
+				.finally(() => {
+					this.active -= 1
+					this.next()
+				})
+		}
+
+		if (this.active === 0 && (this.tasks.length === 0 || this.token.isCancellationRequested)) {
+			this.resolveIdle?.()
+		}
+	}
+}
+
+/**
+ * Crawls the folder of one search through the task queue and reports the files
+ * that pass the exclude patterns of the settings.
+ */
+class SearchSession implements vscode.Disposable {
+	private readonly fileEmitter = new vscode.EventEmitter<SearchFile>()
+	private readonly tokenSource = new vscode.CancellationTokenSource()
+	private readonly cancellation: vscode.Disposable
+	private readonly fsProvider: PterodactylFileSystemProvider
+	private readonly folder: vscode.Uri
+	private readonly excludes: RegExp[]
+
+	public readonly queue: TaskQueue
+	public readonly onDidFindFile = this.fileEmitter.event
+
+	public constructor(deps: SearchSessionDependencies) {
+		this.fsProvider = deps.fsProvider
+		this.folder = deps.folder
+		this.excludes = getConfiguredExcludes(deps.folder).map(globToRegExp)
+		this.cancellation = deps.token.onCancellationRequested(() => {
+			this.tokenSource.cancel()
+		})
+		this.queue = new TaskQueue(getSearchSetting("concurrency", DEFAULT_CONCURRENCY), this.tokenSource.token, deps.log)
+	}
+
+	public get token(): vscode.CancellationToken {
+		return this.tokenSource.token
+	}
+
+	public async run(): Promise<void> {
+		this.queue.push(() => this.listDirectory(""))
+		await this.queue.drain()
+	}
+
+	public stop(): void {
+		this.tokenSource.cancel()
+	}
+
+	public dispose(): void {
+		this.cancellation.dispose()
+		this.tokenSource.dispose()
+		this.fileEmitter.dispose()
+	}
+
+	private async listDirectory(relativeDirectory: string): Promise<void> {
+		const directory = relativeDirectory ? vscode.Uri.joinPath(this.folder, relativeDirectory) : this.folder
+		const entries = await this.fsProvider.listDirectory(directory)
+		for (const entry of entries) {
+			const relativePath = relativeDirectory ? `${relativeDirectory}/${entry.name}` : entry.name
+			if (this.token.isCancellationRequested) {
+				return
+			}
+			if (this.excludes.some(exclude => exclude.test(relativePath))) {
+				continue
+			}
+
+			if (entry.is_file) {
+				this.fileEmitter.fire({uri: vscode.Uri.joinPath(directory, entry.name), relativePath, size: entry.size})
+			} else if (!entry.is_symlink) {
+				this.queue.push(() => this.listDirectory(relativePath))
+			}
+		}
+	}
+}
+
+/**
+ * Crawls the server `serverUri` belongs to, shows the items added while the
+ * crawler runs and opens the one the user picks.
+ */
+class SearchQuickPick {
+	private readonly tokenSource = new vscode.CancellationTokenSource()
+	private readonly quickPick = vscode.window.createQuickPick<SearchQuickPickItem>()
+	private readonly items: SearchQuickPickItem[] = []
+	private updateTimer: ReturnType<typeof globalThis.setTimeout> | undefined
+
+	public readonly session: SearchSession
+
+	public constructor(deps: SearchQuickPickDependencies) {
+		this.session = new SearchSession({
+			fsProvider: deps.fsProvider,
+			log: deps.log,
+			folder: deps.serverUri.with({path: "/", query: "", fragment: ""}),
+			token: this.tokenSource.token
+		})
+		this.quickPick.title = deps.title
+		this.quickPick.placeholder = deps.placeholder
+		this.quickPick.matchOnDescription = true
+		this.quickPick.busy = true
+	}
+
+	public add(item: SearchQuickPickItem): void {
+		if (this.items.length >= MAX_QUICK_PICK_ITEMS) {
+			this.session.stop()
+			return
+		}
+		this.items.push(item)
+		this.updateTimer ??= globalThis.setTimeout(() => {
+			this.updateItems()
+		}, QUICK_PICK_UPDATE_DELAY_MS)
+	}
+
+	/** Resolves once the picked item is open or the quick pick was dismissed, and disposes everything. */
+	public async show(): Promise<void> {
+		const picked = new Promise<SearchQuickPickItem | undefined>(resolve => {
+			this.quickPick.onDidAccept(() => {
+				resolve(this.quickPick.selectedItems[0])
+				this.quickPick.hide()
+			})
+			this.quickPick.onDidHide(() => {
+				resolve(void 0)
+			})
+		})
+		this.quickPick.show()
+		const crawl = this.session.run().then(() => {
+			if (!this.tokenSource.token.isCancellationRequested) {
+				this.updateItems()
+				this.quickPick.busy = false
+			}
+		})
+
+		try {
+			const item = await picked
+			if (item) {
+				await vscode.commands.executeCommand("vscode.open", item.uri, {selection: item.range})
+			}
+		} finally {
+			this.tokenSource.cancel()
+			globalThis.clearTimeout(this.updateTimer)
+			await crawl
+			this.session.dispose()
+			this.quickPick.dispose()
+			this.tokenSource.dispose()
+		}
+	}
+
+	private updateItems(): void {
+		globalThis.clearTimeout(this.updateTimer)
+		this.updateTimer = void 0
+		this.quickPick.items = [...this.items]
+	}
+}
+
+/**
+ * Searches the files of a server by name or content. Both searches crawl the
+ * server with a bounded number of concurrent requests and fill a quick pick
+ * while the crawler runs, so they work without the proposed search APIs.
+ */
+export class ServerSearch {
+	private readonly fsProvider: PterodactylFileSystemProvider
+	private readonly log: ReturnType<typeof createLogger>
+
+	public constructor(deps: ServerSearchDependencies) {
+		this.fsProvider = deps.fsProvider
+		this.log = deps.log
+	}
+
+	/** Lists the files of the server `serverUri` belongs to and opens the one the user picks. */
+	public async pickFile(serverUri: vscode.Uri): Promise<void> {
+		const search = new SearchQuickPick({
+			fsProvider: this.fsProvider,
+			log: this.log,
+			serverUri,
+			title: "Search Server Files",
+			placeholder: "Type to filter the files of the server"
+		})
+		search.session.onDidFindFile(file => {
+			const separatorIndex = file.relativePath.lastIndexOf("/")
+			search.add({
+				label: file.relativePath.slice(separatorIndex + 1),
+				description: separatorIndex === -1 ? "/" : `/${file.relativePath.slice(0, separatorIndex)}`,
+				uri: file.uri
+			})
+		})
+		await search.show()
+	}
+
+	/**
+	 * Asks for a text, lists the lines of the server `serverUri` belongs to that
+	 * contain it, ignoring case, and opens the file the user picks at the match.
+	 */
+	public async searchText(serverUri: vscode.Uri): Promise<void> {
+		const text = await vscode.window.showInputBox({
+			title: "Search Text in Server Files",
+			prompt: "Text to find in the files of the server, ignoring case"
+		})
+		if (!text) {
+			return
+		}
+
+		const pattern = buildSearchPattern(text)
+		const maxFileSize = getSearchSetting("maxFileSizeKilobytes", DEFAULT_MAX_FILE_SIZE_KB) * 1024
+		const decoder = new globalThis.TextDecoder()
+		const search = new SearchQuickPick({
+			fsProvider: this.fsProvider,
+			log: this.log,
+			serverUri,
+			title: `Search Text in Server Files: ${text}`,
+			placeholder: "Type to filter the matches"
+		})
+		const {session} = search
+		session.onDidFindFile(file => {
+			if (file.size > maxFileSize || isBinaryName(file.relativePath)) {
+				return
+			}
+
+			session.queue.push(async () => {
+				const content = await this.fsProvider.readContents(file.uri, `search: ${file.uri}`)
+				if (session.token.isCancellationRequested || isBinaryContent(content)) {
+					return
+				}
+
+				for (const match of findMatches(decoder.decode(content), pattern)) {
+					search.add({
+						label: match.preview,
+						description: `/${file.relativePath}:${match.range.start.line + 1}`,
+						uri: file.uri,
+						range: match.range
+					})
+				}
+			})
+		})
+		await search.show()
+	}
+}
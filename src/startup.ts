@@ -0,0 +1,194 @@
+import * as vscode from "vscode"
+
+import {requestServerApiAt, runServerTask, type ServerTaskOptions} from "./api"
+import type {PterodactylApiClient} from "./client"
+import type {createLogger} from "./logger"
+import {validateLaravelRules} from "./rules"
+import {getActiveServerUri, resolveConnection, type RuntimeState} from "./state"
+
+interface StartupVariableAttributes {
+	name: string
+	description: string
+	env_variable: string
+	default_value: string
+	server_value: string | null
+	is_editable: boolean
+	rules: string
+}
+
+interface StartupResponse {
+	data: Array<{attributes: StartupVariableAttributes}>
+	meta: {
+		startup_command: string
+		docker_images: Record<string, string>
+	}
+}
+
+interface ServerDetailsResponse {
+	attributes: {
+		docker_image: string
+	}
+}
+
+interface StartupManagerDependencies {
+	state: RuntimeState
+	log: ReturnType<typeof createLogger>
+	client: PterodactylApiClient
+}
+
+export class StartupVariableTreeItem extends vscode.TreeItem {
+	public readonly serverUri: vscode.Uri
+
+	public constructor(public readonly variable: StartupVariableAttributes, serverUri: vscode.Uri) {
+		super(variable.name, vscode.TreeItemCollapsibleState.None)
+		this.serverUri = serverUri
+		this.id = `startup-${serverUri.authority}-${variable.env_variable}`
+		this.contextValue = variable.is_editable ? "startupVariable" : "startupVariableLocked"
+		this.description = variable.server_value ?? variable.default_value
+		this.iconPath = new vscode.ThemeIcon(variable.is_editable ? "symbol-variable" : "lock")
+		this.tooltip = [
+			variable.name,
+			variable.description,
+			`Variable: ${variable.env_variable}`,
+			`Value: ${variable.server_value ?? ""}`,
+			`Default: ${variable.default_value}`,
+			`Rules: ${variable.rules}`,
+			variable.is_editable ? "" : "Not editable"
+		].filter(Boolean).join("\n")
+		if (variable.is_editable) {
+			this.command = {command: "pterodactyl-vsc.editStartupVariable", title: "Edit Variable", arguments: [this]}
+		}
+	}
+}
+
+export class DockerImageTreeItem extends vscode.TreeItem {
+	public readonly serverUri: vscode.Uri
+
+	public constructor(public readonly image: string, public readonly images: Record<string, string>, serverUri: vscode.Uri) {
+		super("Docker image", vscode.TreeItemCollapsibleState.None)
+		this.serverUri = serverUri
+		this.id = `startup-${serverUri.authority}-docker-image`
+		this.contextValue = "dockerImage"
+		this.description = Object.entries(images).find(([, value]) => value === image)?.[0] ?? image
+		this.tooltip = image
+		this.iconPath = new vscode.ThemeIcon("package")
+		this.command = {command: "pterodactyl-vsc.changeDockerImage", title: "Change Docker Image", arguments: [this]}
+	}
+}
+
+type StartupTreeNode = StartupVariableTreeItem | DockerImageTreeItem
+
+export class StartupManager implements vscode.TreeDataProvider<StartupTreeNode> {
+	private readonly eventEmitter = new vscode.EventEmitter<StartupTreeNode | undefined | null | void>()
+	private readonly state: RuntimeState
+	private readonly log: ReturnType<typeof createLogger>
+	private readonly taskOptions: ServerTaskOptions
+	private readonly client: PterodactylApiClient
+
+	public readonly onDidChangeTreeData = this.eventEmitter.event
+
+	public constructor(deps: StartupManagerDependencies) {
+		this.state = deps.state
+		this.log = deps.log
+		this.client = deps.client
+		this.taskOptions = {
+			log: deps.log,
+			onSettled: () => {
+				this.refresh()
+			}
+		}
+	}
+
+	public getTreeItem(element: StartupTreeNode): vscode.TreeItem {
+		return element
+	}
+
+	public async getChildren(element?: StartupTreeNode): Promise<StartupTreeNode[]> {
+		const serverUri = getActiveServerUri()
+		const connection = resolveConnection(this.state, serverUri)
+		if (element || !connection.serverApiUrl || !connection.authHeader) {
+			return []
+		}
+
+		try {
+			const [startupResponse, serverResponse] = await Promise.all([
+				requestServerApiAt(this.client, this.state, serverUri, "/startup"),
+				requestServerApiAt(this.client, this.state, serverUri, "")
+			])
+			const startup = await startupResponse.json() as StartupResponse
+			const server = await serverResponse.json() as ServerDetailsResponse
+			return [
+				new DockerImageTreeItem(server.attributes.docker_image, startup.meta.docker_images, serverUri),
+				...startup.data.map(variable => new StartupVariableTreeItem(variable.attributes, serverUri))
+			]
+		} catch (error) {
+			this.log(`Failed to load the startup configuration: ${String(error)}`)
+			return []
+		}
+	}
+
+	public refresh(): void {
+		this.eventEmitter.fire()
+	}
+
+	public async editVariable(item: StartupVariableTreeItem): Promise<void> {
+		const {variable, serverUri} = item
+		if (!variable.is_editable) {
+			void vscode.window.showErrorMessage(`${variable.name} cannot be edited`)
+			return
+		}
+
+		const value = await vscode.window.showInputBox({
+			title: `${variable.name} (${variable.env_variable})`,
+			prompt: variable.description || void 0,
+			value: variable.server_value ?? variable.default_value,
+			placeHolder: `Rules: ${variable.rules}`,
+			validateInput: (input: string): string | undefined => validateLaravelRules(input, variable.rules)
+		})
+		if (value === void 0) {
+			return
+		}
+
+		await runServerTask(`Updating ${variable.name}`, this.taskOptions, async () => {
+			await requestServerApiAt(this.client, this.state, serverUri, "/startup/variable", {
+				method: "PUT",
+				body: {key: variable.env_variable, value}
+			})
+		})
+	}
+
+	public async changeDockerImage(item?: DockerImageTreeItem): Promise<void> {
+		const serverUri = item?.serverUri ?? getActiveServerUri()
+		let current = item?.image
+		let images = item?.images
+		if (!images) {
+			try {
+				const [startupResponse, serverResponse] = await Promise.all([
+					requestServerApiAt(this.client, this.state, serverUri, "/startup"),
+					requestServerApiAt(this.client, this.state, serverUri, "")
+				])
+				images = (await startupResponse.json() as StartupResponse).meta.docker_images
+				current = (await serverResponse.json() as ServerDetailsResponse).attributes.docker_image
+			} catch (error) {
+				void vscode.window.showErrorMessage(`Failed to load Docker images: ${error instanceof Error ? error.message : String(error)}`)
+				return
+			}
+		}
+
+		const selection = await vscode.window.showQuickPick(
+			Object.entries(images).map(([label, image]) => ({label, description: image, detail: image === current ? "Current image" : void 0, image})),
+			{placeHolder: "Select the Docker image for this server"}
+		)
+		if (!selection || selection.image === current) {
+			return
+		}
+
+		await runServerTask(`Switching Docker image to ${selection.label}`, this.taskOptions, async () => {
+			await requestServerApiAt(this.client, this.state, serverUri, "/settings/docker-image", {
+				method: "PUT",
+				body: {docker_image: selection.image}
+			})
+			void vscode.window.showInformationMessage(`Docker image changed to ${selection.label}. Restart the server to apply it.`)
+		})
+	}
+}
@@ -1,35 +1,139 @@
-import {buildServerApiUrl, getApiKey, getPanelUrl, getServerId} from "./config"
+import * as vscode from "vscode"
 
-export interface RuntimeState {
+import {buildServerApiUrl, getPanelUrl, getServerId} from "./config"
+import type {ProfileStore} from "./profiles"
+
+export const PTERODACTYL_SCHEME = "pterodactyl"
+
+export interface PanelConnection {
+	panelUrl: string
+	authHeader: string
+	proxyBase?: string
+}
+
+export interface ServerConnection {
 	serverApiUrl: string
 	authHeader: string
+	proxyBase?: string
+	/** The profile the connection authenticates with, unset for the default connection. */
+	profile?: string
+}
+
+/**
+ * The default connection, used for `pterodactyl:/` URIs without an authority and
+ * for authorities without a profile. URIs such as `pterodactyl://profile@abcd1234/`
+ * resolve their own connection through `resolveConnection`.
+ */
+export interface RuntimeState extends ServerConnection {
+	panelUrl: string
+	profiles: Map<string, PanelConnection>
+}
+
+export interface ServerAuthority {
+	serverId: string
+	profile?: string
 }
 
 export const createRuntimeState = (): RuntimeState => ({
 	serverApiUrl: "",
-	authHeader: ""
+	authHeader: "",
+	panelUrl: getPanelUrl(),
+	profiles: new Map()
 })
 
-export const hydrateRuntimeState = (state: RuntimeState): void => {
-	const panelUrl = getPanelUrl()
+const toAuthHeader = (apiKey: string | undefined): string => apiKey ? `Bearer ${apiKey}` : ""
+
+export const hydrateRuntimeState = async (state: RuntimeState, profileStore: ProfileStore): Promise<void> => {
+	const activeProfile = profileStore.getActiveProfile()
 	const serverId = getServerId()
-	const apiKey = getApiKey()
 
-	if (panelUrl && serverId) {
-		state.serverApiUrl = buildServerApiUrl(panelUrl, serverId)
+	state.profiles.clear()
+	for (const profile of profileStore.getProfiles()) {
+		state.profiles.set(profile.name, {
+			panelUrl: profile.panelUrl,
+			authHeader: toAuthHeader(await profileStore.getApiKey(profile)),
+			proxyBase: profile.proxyUrl
+		})
 	}
 
-	if (apiKey) {
-		state.authHeader = `Bearer ${apiKey}`
-	}
+	const activeConnection = activeProfile ? state.profiles.get(activeProfile.name) : void 0
+	state.panelUrl = activeConnection?.panelUrl ?? getPanelUrl()
+	state.authHeader = activeConnection?.authHeader ?? ""
+	state.proxyBase = activeConnection?.proxyBase
+	state.serverApiUrl = serverId ? buildServerApiUrl(state.panelUrl, serverId) : ""
 }
 
 export const connectRuntimeState = (state: RuntimeState, panelUrl: string, serverId: string, apiKey: string): void => {
+	state.panelUrl = panelUrl
 	state.serverApiUrl = buildServerApiUrl(panelUrl, serverId)
-	state.authHeader = `Bearer ${apiKey}`
+	state.authHeader = toAuthHeader(apiKey)
 }
 
 export const clearRuntimeState = (state: RuntimeState): void => {
 	state.serverApiUrl = ""
 	state.authHeader = ""
 }
+
+export const parseServerAuthority = (authority: string): ServerAuthority | undefined => {
+	if (!authority) {
+		return void 0
+	}
+
+	const separatorIndex = authority.lastIndexOf("@")
+	if (separatorIndex === -1) {
+		return {serverId: authority}
+	}
+	return {
+		serverId: authority.slice(separatorIndex + 1),
+		profile: decodeURIComponent(authority.slice(0, separatorIndex))
+	}
+}
+
+export const formatServerAuthority = (authority: ServerAuthority): string => {
+	return authority.profile ? `${encodeURIComponent(authority.profile)}@${authority.serverId}` : authority.serverId
+}
+
+export const toServerRootUri = (authority: ServerAuthority): vscode.Uri => {
+	return vscode.Uri.from({scheme: PTERODACTYL_SCHEME, authority: formatServerAuthority(authority), path: "/"})
+}
+
+export const resolveConnection = (state: RuntimeState, uri?: vscode.Uri): ServerConnection => {
+	const authority = parseServerAuthority(uri?.authority ?? "")
+	if (!authority) {
+		return state
+	}
+
+	const panel = authority.profile ? state.profiles.get(authority.profile) : state
+	if (!panel) {
+		return {serverApiUrl: "", authHeader: ""}
+	}
+
+	return {
+		serverApiUrl: buildServerApiUrl(panel.panelUrl, authority.serverId),
+		authHeader: panel.authHeader,
+		proxyBase: panel.proxyBase,
+		profile: authority.profile
+	}
+}
+
+export const getServerFolders = (): vscode.WorkspaceFolder[] => {
+	return vscode.workspace.workspaceFolders?.filter(folder => folder.uri.scheme === PTERODACTYL_SCHEME) ?? []
+}
+
+/**
+ * Returns the root URI of the server the user is currently working on: the server
+ * of the active editor, else the first server folder, else the default server.
+ */
+export const getActiveServerUri = (): vscode.Uri => {
+	const activeUri = vscode.window.activeTextEditor?.document.uri
+	if (activeUri?.scheme === PTERODACTYL_SCHEME) {
+		return activeUri.with({path: "/", query: "", fragment: ""})
+	}
+	return getServerFolders()[0]?.uri ?? vscode.Uri.parse(`${PTERODACTYL_SCHEME}:/`)
+}
+
+export const getActiveConnection = (state: RuntimeState): ServerConnection => resolveConnection(state, getActiveServerUri())
+
+export const getServerIdForConnection = (connection: ServerConnection): string | undefined => {
+	return /\/api\/client\/servers\/([^/]+)\/files$/.exec(connection.serverApiUrl)?.[1]
+}
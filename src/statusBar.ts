@@ -1,12 +1,16 @@
 import * as vscode from "vscode"
 
-import {getPanelUrl, getServerId, proxyUrl} from "./config"
+import type {PterodactylApiClient} from "./client"
+import {toServerBaseUrl} from "./config"
 import type {createLogger} from "./logger"
-import type {RuntimeState} from "./state"
+import {formatResourceSummary, type ResourceMonitor} from "./resources"
+import {getActiveServerUri, getServerIdForConnection, resolveConnection, type RuntimeState} from "./state"
 
 interface StatusBarDependencies {
 	state: RuntimeState
 	log: ReturnType<typeof createLogger>
+	client: PterodactylApiClient
+	resourceMonitor: ResourceMonitor
 }
 
 interface PowerResponse {
@@ -15,17 +19,13 @@ interface PowerResponse {
 	}>
 }
 
-interface ResourceStateResponse {
-	attributes: {
-		current_state: string
-	}
-}
-
 export class StatusBarController {
 	private readonly statusBarItem: vscode.StatusBarItem
 	private readonly openButtonItem: vscode.StatusBarItem
 	private readonly state: RuntimeState
 	private readonly log: ReturnType<typeof createLogger>
+	private readonly client: PterodactylApiClient
+	private readonly resourceMonitor: ResourceMonitor
 	private refreshInFlight = false
 	private refreshQueued = false
 	private refreshInterval: ReturnType<typeof globalThis.setInterval> | undefined
@@ -33,6 +33,8 @@ export class StatusBarController {
 	public constructor(deps: StatusBarDependencies) {
 		this.state = deps.state
 		this.log = deps.log
+		this.client = deps.client
+		this.resourceMonitor = deps.resourceMonitor
 		this.statusBarItem = vscode.window.createStatusBarItem(vscode.StatusBarAlignment.Left, 100)
 		this.openButtonItem = vscode.window.createStatusBarItem(vscode.StatusBarAlignment.Left, 99)
 	}
@@ -73,30 +75,25 @@ export class StatusBarController {
 		})
 	}
 
-	public async sendPowerSignal(signal: string): Promise<void> {
-		if (!this.state.serverApiUrl || !this.state.authHeader) {
+	public async sendPowerSignal(signal: string, uri: vscode.Uri = getActiveServerUri()): Promise<void> {
+		const connection = resolveConnection(this.state, uri)
+		if (!connection.serverApiUrl || !connection.authHeader) {
 			void vscode.window.showErrorMessage("No server connected")
 			return
 		}
 
-		const panelUrl = getPanelUrl()
-		const serverId = getServerId()
-		if (!panelUrl || !serverId) {
-			void vscode.window.showErrorMessage("Server configuration incomplete")
-			return
-		}
-
-		const powerUrl = `${panelUrl}/api/client/servers/${serverId}/power`
+		const powerUrl = `${toServerBaseUrl(connection.serverApiUrl)}/power`
 
 		try {
-			const response = await fetch(proxyUrl(powerUrl), {
+			const response = await this.client.request(powerUrl, {
 				method: "POST",
 				headers: {
-					Authorization: this.state.authHeader,
+					Authorization: connection.authHeader,
 					"Content-Type": "application/json",
 					Accept: "application/vnd.pterodactyl.v1+json"
 				},
-				body: JSON.stringify({signal})
+				body: JSON.stringify({signal}),
+				proxyBase: connection.proxyBase
 			})
 
 			if (response.status === 204) {
@@ -114,22 +111,30 @@ export class StatusBarController {
 		}
 	}
 
-	public async showPowerMenu(): Promise<void> {
+	public async showPowerMenu(uri: vscode.Uri = getActiveServerUri()): Promise<void> {
 		const items = [
 			{label: "Start Server", description: "Start the server", action: "start"},
 			{label: "Stop Server", description: "Stop the server gracefully", action: "stop"},
 			{label: "Restart Server", description: "Restart the server", action: "restart"},
-			{label: "Kill Server", description: "Force kill the server", action: "kill"}
+			{label: "Kill Server", description: "Force kill the server", action: "kill"},
+			{label: "Open Console", description: "Show the live server console", action: "console"},
+			{label: "Show Resources", description: "Chart CPU, memory, disk and network usage", action: "resources"}
 		]
 
 		const selected = await vscode.window.showQuickPick(items, {placeHolder: "Select a power action"})
-		if (selected) {
-			await this.sendPowerSignal(selected.action)
+		if (selected?.action === "console") {
+			await vscode.commands.executeCommand("pterodactyl-vsc.openConsole")
+		} else if (selected?.action === "resources") {
+			await vscode.commands.executeCommand("pterodactyl-vsc.showResources")
+		} else if (selected) {
+			await this.sendPowerSignal(selected.action, uri)
 		}
 	}
 
 	private async refresh(): Promise<void> {
-		if (!this.state.serverApiUrl || !this.state.authHeader) {
+		const serverUri = getActiveServerUri()
+		const connection = resolveConnection(this.state, serverUri)
+		if (!connection.serverApiUrl || !connection.authHeader) {
 			this.statusBarItem.text = "No Server"
 			this.statusBarItem.tooltip = "No server connected"
 			this.statusBarItem.command = "pterodactyl-vsc.init"
@@ -138,9 +143,8 @@ export class StatusBarController {
 			return
 		}
 
-		const panelUrl = getPanelUrl()
-		const serverId = getServerId()
-		if (!panelUrl || !serverId) {
+		const serverId = getServerIdForConnection(connection)
+		if (!serverId) {
 			this.statusBarItem.text = "Config Error"
 			this.statusBarItem.tooltip = "Server configuration incomplete"
 			this.statusBarItem.command = "pterodactyl-vsc.init"
@@ -154,27 +158,16 @@ export class StatusBarController {
 		this.openButtonItem.command = "pterodactyl-vsc.openPanel"
 		this.openButtonItem.show()
 
-		const resourcesUrl = `${panelUrl}/api/client/servers/${serverId}/resources`
 		try {
-			const response = await fetch(proxyUrl(resourcesUrl), {
-				headers: {
-					Authorization: this.state.authHeader,
-					Accept: "application/json"
-				}
-			})
-			if (!response.ok) {
-				throw new Error(`Resources request failed with ${response.status}`)
-			}
-
-			const data = await response.json() as ResourceStateResponse
-			let state = data.attributes.current_state
+			const sample = await this.resourceMonitor.poll(serverUri)
+			let state = sample.state
 			if (state === "starting") {
 				state = "running"
 			}
 
 			const titleState = `${state.charAt(0).toUpperCase()}${state.slice(1)}`
-			this.statusBarItem.text = titleState
-			this.statusBarItem.tooltip = `Server Status: ${state}\nClick to show power menu`
+			this.statusBarItem.text = state === "offline" ? titleState : `${titleState} · ${formatResourceSummary(sample)}`
+			this.statusBarItem.tooltip = `Server ${serverId} status: ${state}\n${formatResourceSummary(sample)}\nClick to show power menu`
 			this.statusBarItem.command = "pterodactyl-vsc.showPowerMenu"
 			this.statusBarItem.show()
 		} catch (error) {
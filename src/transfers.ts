@@ -0,0 +1,327 @@
+import * as vscode from "vscode"
+
+import {wait} from "./api"
+import {formatBytes} from "./format"
+import type {PterodactylFileAttributes, PterodactylFileSystemProvider} from "./fsProvider"
+import type {createLogger} from "./logger"
+import {getActiveServerUri} from "./state"
+
+const PULL_POLL_INTERVAL_MS = 2000
+const PULL_TIMEOUT_MS = 10 * 60_000
+
+interface TransferCommandsDependencies {
+	fsProvider: PterodactylFileSystemProvider
+	log: ReturnType<typeof createLogger>
+}
+
+interface UploadEntry {
+	source: vscode.Uri
+	destination: vscode.Uri
+	relativePath: string
+	isDirectory: boolean
+}
+
+export class TransferCommands {
+	private readonly fsProvider: PterodactylFileSystemProvider
+	private readonly log: ReturnType<typeof createLogger>
+
+	public constructor(deps: TransferCommandsDependencies) {
+		this.fsProvider = deps.fsProvider
+		this.log = deps.log
+	}
+
+	public async uploadFromDisk(target?: vscode.Uri): Promise<void> {
+		const directory = await this.resolveTargetDirectory(target ?? getActiveServerUri())
+		const sources = await vscode.window.showOpenDialog({
+			canSelectFiles: true,
+			canSelectFolders: true,
+			canSelectMany: true,
+			openLabel: "Upload"
+		})
+		if (!sources || sources.length === 0) {
+			return
+		}
+
+		await this.uploadLocal(sources, directory)
+	}
+
+	/** Uploads local files and folders into `directory`, recreating folders recursively. */
+	public async uploadLocal(sources: readonly vscode.Uri[], directory: vscode.Uri): Promise<void> {
+		try {
+			if (!await this.confirmReplace(directory, sources.map(source => source.path.split("/").pop() ?? ""))) {
+				return
+			}
+		} catch (error) {
+			this.log(`Upload failed: ${String(error)}`)
+			void vscode.window.showErrorMessage(`Upload failed: ${error instanceof Error ? error.message : String(error)}`)
+			return
+		}
+
+		await vscode.window.withProgress({
+			location: vscode.ProgressLocation.Notification,
+			title: `Uploading to ${directory.path}`,
+			cancellable: true
+		}, async (progress, token) => {
+			const entries: UploadEntry[] = []
+			try {
+				progress.report({message: "Collecting files..."})
+				for (const source of sources) {
+					entries.push(...await this.collectUploadEntries(source, vscode.Uri.joinPath(directory, source.path.split("/").pop() ?? ""), ""))
+				}
+
+				const files = entries.filter(entry => !entry.isDirectory)
+				let uploaded = 0
+				for (const entry of entries) {
+					if (token.isCancellationRequested) {
+						break
+					}
+
+					if (entry.isDirectory) {
+						await this.createDirectory(entry.destination)
+						continue
+					}
+
+					progress.report({message: `${entry.relativePath} (${uploaded + 1}/${files.length})`})
+					const content = await vscode.workspace.fs.readFile(entry.source)
+					await this.fsProvider.uploadFile(entry.destination, content, token)
+					uploaded += 1
+					progress.report({increment: 100 / files.length})
+				}
+
+				this.fsProvider.notifyChanges(sources.map(source => ({
+					type: vscode.FileChangeType.Created,
+					uri: vscode.Uri.joinPath(directory, source.path.split("/").pop() ?? "")
+				})))
+
+				if (token.isCancellationRequested) {
+					void vscode.window.showWarningMessage(`Upload cancelled after ${uploaded} of ${files.length} file(s)`)
+				} else {
+					void vscode.window.showInformationMessage(`Uploaded ${uploaded} file(s) to ${directory.path}`)
+				}
+			} catch (error) {
+				if (error instanceof vscode.CancellationError) {
+					void vscode.window.showWarningMessage("Upload cancelled")
+					return
+				}
+				this.log(`Upload failed: ${String(error)}`)
+				void vscode.window.showErrorMessage(`Upload failed: ${error instanceof Error ? error.message : String(error)}`)
+			}
+		})
+	}
+
+	public async downloadToLocal(uris: vscode.Uri[]): Promise<void> {
+		if (uris.length === 0) {
+			return
+		}
+
+		const destination = await this.pickDownloadDestination(uris)
+		if (!destination) {
+			return
+		}
+
+		await vscode.window.withProgress({
+			location: vscode.ProgressLocation.Notification,
+			title: "Downloading",
+			cancellable: true
+		}, async (progress, token) => {
+			let downloaded = 0
+			try {
+				for (const uri of uris) {
+					if (token.isCancellationRequested) {
+						break
+					}
+
+					const name = uri.path.split("/").pop() || uri.authority
+					const target = uris.length === 1 && !destination.isDirectory ? destination.uri : vscode.Uri.joinPath(destination.uri, name)
+					progress.report({message: `${name} (${downloaded + 1}/${uris.length})`})
+					await this.downloadEntry(uri, target, token, progress)
+					downloaded += 1
+				}
+
+				if (token.isCancellationRequested) {
+					void vscode.window.showWarningMessage(`Download cancelled after ${downloaded} of ${uris.length} item(s)`)
+				} else {
+					void vscode.window.showInformationMessage(`Downloaded ${downloaded} item(s) to ${destination.uri.fsPath}`)
+				}
+			} catch (error) {
+				if (error instanceof vscode.CancellationError) {
+					void vscode.window.showWarningMessage("Download cancelled")
+					return
+				}
+				this.log(`Download failed: ${String(error)}`)
+				void vscode.window.showErrorMessage(`Download failed: ${error instanceof Error ? error.message : String(error)}`)
+			}
+		})
+	}
+
+	public async pullFromUrl(target?: vscode.Uri): Promise<void> {
+		const directory = await this.resolveTargetDirectory(target ?? getActiveServerUri())
+		const url = await vscode.window.showInputBox({
+			prompt: `URL to download into ${directory.path}`,
+			placeHolder: "https://example.com/plugin.jar",
+			validateInput: (value: string): string | undefined => /^https?:\/\/.+/.test(value.trim()) ? void 0 : "Enter a URL starting with http:// or https://"
+		})
+		if (!url) {
+			return
+		}
+
+		const fileName = await vscode.window.showInputBox({
+			prompt: "File name (optional)",
+			placeHolder: "Leave empty to use the name from the URL",
+			validateInput: (value: string): string | undefined => value.includes("/") ? "The file name cannot contain \"/\"" : void 0
+		})
+		if (fileName === void 0) {
+			return
+		}
+
+		let useHeader = false
+		if (!fileName.trim()) {
+			const headerSelection = await vscode.window.showQuickPick(["Use the name from the URL", "Use the name from the Content-Disposition header"], {
+				placeHolder: "Which file name should the server use?"
+			})
+			if (!headerSelection) {
+				return
+			}
+			useHeader = headerSelection !== "Use the name from the URL"
+		}
+
+		await vscode.window.withProgress({
+			location: vscode.ProgressLocation.Notification,
+			title: `Pulling ${url}`,
+			cancellable: true
+		}, async (progress, token) => {
+			try {
+				const existing = new Map((await this.fsProvider.listDirectory(directory, true)).map(file => [file.name, file.modified_at]))
+				await this.fsProvider.pullFromUrl(directory, url.trim(), {fileName: fileName.trim() || void 0, useHeader})
+				progress.report({message: "Waiting for the daemon to download the file..."})
+
+				const expectedName = fileName.trim() || (useHeader ? void 0 : decodeURIComponent(new globalThis.URL(url.trim()).pathname.split("/").pop() ?? ""))
+				// Wings writes the file while it downloads, so it counts as done once neither its size nor its mtime changed between two polls
+				const startedAt = Date.now()
+				let previous: PterodactylFileAttributes | undefined
+				while (!token.isCancellationRequested && Date.now() - startedAt < PULL_TIMEOUT_MS) {
+					await wait(PULL_POLL_INTERVAL_MS)
+					const files = await this.fsProvider.listDirectory(directory, true)
+					const pulled = previous
+						? files.find(file => file.name === previous?.name)
+						: files.find(file => (expectedName === void 0 || file.name === expectedName) && existing.get(file.name) !== file.modified_at)
+					if (pulled && previous && pulled.size === previous.size && pulled.modified_at === previous.modified_at) {
+						this.fsProvider.notifyChanges([{type: vscode.FileChangeType.Created, uri: vscode.Uri.joinPath(directory, pulled.name)}])
+						void vscode.window.showInformationMessage(`Downloaded "${pulled.name}" (${formatBytes(pulled.size)}) into ${directory.path}`)
+						return
+					}
+
+					previous = pulled
+					if (pulled) {
+						progress.report({message: `Received ${formatBytes(pulled.size)} of "${pulled.name}"...`})
+					}
+				}
+
+				if (!token.isCancellationRequested) {
+					void vscode.window.showWarningMessage(`The file did not appear in ${directory.path} yet. The daemon may still be downloading it.`)
+				}
+			} catch (error) {
+				this.log(`Pull from URL failed: ${String(error)}`)
+				void vscode.window.showErrorMessage(`Pull from URL failed: ${error instanceof Error ? error.message : String(error)}`)
+			}
+		})
+	}
+
+	/**
+	 * Asks before replacing the entries of `directory` called `names`. Resolves to
+	 * the names that already exist, or to `undefined` when the user declined.
+	 */
+	public async confirmReplace(directory: vscode.Uri, names: readonly string[]): Promise<Set<string> | undefined> {
+		const existing = new Set((await this.fsProvider.listDirectory(directory, true)).map(file => file.name))
+		const conflicts = names.filter(name => existing.has(name))
+		if (conflicts.length > 0) {
+			const confirmation = await vscode.window.showWarningMessage(`${conflicts.join(", ")} already exist(s) in ${directory.path}. Replace?`, {modal: true}, "Replace")
+			if (confirmation !== "Replace") {
+				return void 0
+			}
+		}
+		return new Set(conflicts)
+	}
+
+	private async pickDownloadDestination(uris: vscode.Uri[]): Promise<{uri: vscode.Uri, isDirectory: boolean} | undefined> {
+		if (uris.length === 1) {
+			const fileStat = await this.fsProvider.stat(uris[0])
+			if (fileStat.type & vscode.FileType.File) {
+				const uri = await vscode.window.showSaveDialog({saveLabel: "Download", title: `Download ${uris[0].path.split("/").pop()}`})
+				return uri ? {uri, isDirectory: false} : void 0
+			}
+		}
+
+		const folders = await vscode.window.showOpenDialog({
+			canSelectFiles: false,
+			canSelectFolders: true,
+			canSelectMany: false,
+			openLabel: "Download here"
+		})
+		return folders?.[0] ? {uri: folders[0], isDirectory: true} : void 0
+	}
+
+	/**
+	 * Downloads a file as-is. Directories are compressed on the server first, and
+	 * the temporary archive is removed again once it has been transferred.
+	 */
+	private async downloadEntry(
+		uri: vscode.Uri,
+		target: vscode.Uri,
+		token: vscode.CancellationToken,
+		progress: vscode.Progress<{message?: string, increment?: number}>
+	): Promise<void> {
+		const fileStat = await this.fsProvider.stat(uri, true)
+		if (fileStat.type & vscode.FileType.File) {
+			const content = await this.fsProvider.downloadFile(uri, fileStat.size, token, progress)
+			await vscode.workspace.fs.writeFile(target, content)
+			return
+		}
+
+		const directory = uri.with({path: uri.path.split("/").slice(0, -1).join("/") || "/"})
+		const archive = await this.fsProvider.compress(directory, [uri.path.split("/").pop() ?? ""])
+		const archiveUri = vscode.Uri.joinPath(directory, archive.name)
+		try {
+			const content = await this.fsProvider.downloadFile(archiveUri, archive.size, token, progress)
+			const extension = /(\.tar)?\.[^.]+$/.exec(archive.name)?.[0] ?? ""
+			await vscode.workspace.fs.writeFile(target.with({path: `${target.path}${extension}`}), content)
+		} finally {
+			await this.fsProvider.delete(archiveUri)
+		}
+	}
+
+	private async resolveTargetDirectory(uri: vscode.Uri): Promise<vscode.Uri> {
+		try {
+			const fileStat = await this.fsProvider.stat(uri)
+			if (fileStat.type & vscode.FileType.Directory) {
+				return uri
+			}
+		} catch (error) {
+			this.log(`Failed to stat upload target ${uri.path}: ${String(error)}`)
+		}
+		return uri.with({path: uri.path.split("/").slice(0, -1).join("/") || "/"})
+	}
+
+	private async collectUploadEntries(source: vscode.Uri, destination: vscode.Uri, parentPath: string): Promise<UploadEntry[]> {
+		const relativePath = parentPath ? `${parentPath}/${source.path.split("/").pop()}` : source.path.split("/").pop() ?? ""
+		const fileStat = await vscode.workspace.fs.stat(source)
+		if (!(fileStat.type & vscode.FileType.Directory)) {
+			return [{source, destination, relativePath, isDirectory: false}]
+		}
+
+		const entries: UploadEntry[] = [{source, destination, relativePath, isDirectory: true}]
+		for (const [name] of await vscode.workspace.fs.readDirectory(source)) {
+			entries.push(...await this.collectUploadEntries(vscode.Uri.joinPath(source, name), vscode.Uri.joinPath(destination, name), relativePath))
+		}
+		return entries
+	}
+
+	private async createDirectory(uri: vscode.Uri): Promise<void> {
+		try {
+			await this.fsProvider.createDirectory(uri)
+		} catch (error) {
+			// The folder usually exists already; a real failure surfaces on the first upload into it.
+			this.log(`Failed to create ${uri.path}: ${String(error)}`)
+		}
+	}
+}
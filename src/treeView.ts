@@ -1,6 +1,30 @@
 import * as vscode from "vscode"
 
-import type {PterodactylFileSystemProvider} from "./fsProvider"
+import {runServerTask} from "./api"
+import {isArchiveName} from "./archives"
+import type {PterodactylFileAttributes, PterodactylFileSystemProvider} from "./fsProvider"
+import type {createLogger} from "./logger"
+import {getServerFolders, PTERODACTYL_SCHEME} from "./state"
+import type {TransferCommands} from "./transfers"
+
+const DEFAULT_ROOT_URI = `${PTERODACTYL_SCHEME}:/`
+const TREE_MIME_TYPE = "application/vnd.code.tree.pterodactyl-explorer"
+const URI_LIST_MIME_TYPE = "text/uri-list"
+/** Drops of at least this many items, or of any folder, are confirmed before they are moved. */
+const LARGE_MOVE_THRESHOLD = 10
+
+interface TreeDragAndDropControllerDependencies {
+	fsProvider: PterodactylFileSystemProvider
+	transferCommands: TransferCommands
+	log: ReturnType<typeof createLogger>
+}
+
+interface Transfer {
+	from: vscode.Uri
+	to: vscode.Uri
+}
+
+const isSameOrInside = (uri: vscode.Uri, parent: vscode.Uri): boolean => uri.authority === parent.authority && (uri.path === parent.path || uri.path.startsWith(`${parent.path}/`))
 
 export class PterodactylTreeItem extends vscode.TreeItem {
 	public constructor(
@@ -11,10 +35,25 @@ export class PterodactylTreeItem extends vscode.TreeItem {
 	) {
 		super(label, collapsibleState)
 		this.resourceUri = uri
-		this.contextValue = isFile ? "file" : "folder"
+		this.contextValue = isFile ? (isArchiveName(label) ? "file.archive" : "file") : "folder"
 	}
 }
 
+/**
+ * Resolves the resources a command was invoked on, from either the Pterodactyl
+ * tree (`item, selectedItems`) or the built-in explorer (`uri, selectedUris`).
+ */
+export const getSelectedUris = (
+	target: PterodactylTreeItem | vscode.Uri | undefined,
+	selection?: readonly (PterodactylTreeItem | vscode.Uri)[]
+): vscode.Uri[] => {
+	const toUri = (entry: PterodactylTreeItem | vscode.Uri): vscode.Uri => entry instanceof vscode.Uri ? entry : entry.uri
+	if (selection && selection.length > 0) {
+		return selection.map(toUri)
+	}
+	return target ? [toUri(target)] : []
+}
+
 export class PterodactylTreeDataProvider implements vscode.TreeDataProvider<PterodactylTreeItem> {
 	private readonly eventEmitter = new vscode.EventEmitter<PterodactylTreeItem | undefined | null | void>()
 	private readonly fsProvider: PterodactylFileSystemProvider
@@ -35,7 +74,12 @@ export class PterodactylTreeDataProvider implements vscode.TreeDataProvider<Pter
 	}
 
 	public async getChildren(element?: PterodactylTreeItem): Promise<PterodactylTreeItem[]> {
-		const directoryUri = element ? element.uri : vscode.Uri.parse("pterodactyl:/")
+		const serverFolders = getServerFolders()
+		if (!element && serverFolders.length > 1) {
+			return serverFolders.map(folder => this.toServerItem(folder))
+		}
+
+		const directoryUri = element ? element.uri : serverFolders[0]?.uri ?? vscode.Uri.parse(DEFAULT_ROOT_URI)
 		const directoryKey = directoryUri.toString()
 		this.refreshTargetByDirectory.set(directoryKey, element)
 
@@ -58,9 +102,24 @@ export class PterodactylTreeDataProvider implements vscode.TreeDataProvider<Pter
 		this.visibleItemsByDirectory.clear()
 		this.loadInFlightByDirectory.clear()
 		this.refreshTargetByDirectory.clear()
+		this.fsProvider.invalidateListings()
 		this.eventEmitter.fire()
 	}
 
+	public refreshDirectory(directoryUri: vscode.Uri): void {
+		const directoryKey = directoryUri.toString()
+		const timer = this.revealTimersByDirectory.get(directoryKey)
+		if (timer) {
+			globalThis.clearTimeout(timer)
+		}
+
+		const target = this.refreshTargetByDirectory.get(directoryKey)
+		this.revealTimersByDirectory.delete(directoryKey)
+		this.allItemsByDirectory.delete(directoryKey)
+		this.visibleItemsByDirectory.delete(directoryKey)
+		this.eventEmitter.fire(target)
+	}
+
 	private async startAnimatedLoad(directoryUri: vscode.Uri, element?: PterodactylTreeItem): Promise<void> {
 		const directoryKey = directoryUri.toString()
 		const inFlight = this.loadInFlightByDirectory.get(directoryKey)
@@ -71,8 +130,8 @@ export class PterodactylTreeDataProvider implements vscode.TreeDataProvider<Pter
 
 		const loadPromise = (async () => {
 			try {
-				const items = await this.fsProvider.readDirectory(directoryUri)
-				const treeItems = items.map(([name, type]) => this.toTreeItem(directoryUri, name, type))
+				const files = await this.fsProvider.listDirectory(directoryUri)
+				const treeItems = files.map(file => this.toTreeItem(directoryUri, file))
 				treeItems.sort((left, right) => {
 					if (left.isFile !== right.isFile) {
 						return left.isFile ? 1 : -1
@@ -118,52 +177,176 @@ export class PterodactylTreeDataProvider implements vscode.TreeDataProvider<Pter
 		this.revealTimersByDirectory.set(directoryKey, timer)
 	}
 
-	private toTreeItem(directoryUri: vscode.Uri, name: string, type: vscode.FileType): PterodactylTreeItem {
-		const uri = vscode.Uri.joinPath(directoryUri, name)
-		const isFile = (type & vscode.FileType.File) !== 0
-		const collapsibleState = isFile ? vscode.TreeItemCollapsibleState.None : vscode.TreeItemCollapsibleState.Collapsed
-		return new PterodactylTreeItem(name, collapsibleState, uri, isFile)
+	private toServerItem(folder: vscode.WorkspaceFolder): PterodactylTreeItem {
+		const item = new PterodactylTreeItem(folder.name, vscode.TreeItemCollapsibleState.Collapsed, folder.uri, false)
+		item.iconPath = new vscode.ThemeIcon("server")
+		return item
+	}
+
+	private toTreeItem(directoryUri: vscode.Uri, file: PterodactylFileAttributes): PterodactylTreeItem {
+		const uri = vscode.Uri.joinPath(directoryUri, file.name)
+		const collapsibleState = file.is_file ? vscode.TreeItemCollapsibleState.None : vscode.TreeItemCollapsibleState.Collapsed
+		const item = new PterodactylTreeItem(file.name, collapsibleState, uri, file.is_file)
+		item.tooltip = `${uri.path}\nPermissions: ${file.mode} (${file.mode_bits})`
+		return item
 	}
 }
 
+/**
+ * Moves (or copies) dragged items between folders, uploads local files dropped
+ * from the OS or the local explorer, and offers dragged items as `text/uri-list`
+ * so they can be dropped into the local explorer. Tree drops do not report
+ * modifier keys, so copying is chosen with the `dragAndDrop.action` setting or
+ * in the confirmation shown for large moves.
+ */
 export class PterodactylTreeDragAndDropController implements vscode.TreeDragAndDropController<PterodactylTreeItem> {
-	public readonly dropMimeTypes = ["application/vnd.code.tree.pterodactyl-explorer"]
-	public readonly dragMimeTypes = ["application/vnd.code.tree.pterodactyl-explorer"]
+	public readonly dropMimeTypes = [TREE_MIME_TYPE, URI_LIST_MIME_TYPE]
+	public readonly dragMimeTypes = [TREE_MIME_TYPE, URI_LIST_MIME_TYPE]
 	private readonly fsProvider: PterodactylFileSystemProvider
-	private readonly treeDataProvider: PterodactylTreeDataProvider
+	private readonly transferCommands: TransferCommands
+	private readonly log: ReturnType<typeof createLogger>
 
-	public constructor(fsProvider: PterodactylFileSystemProvider, treeDataProvider: PterodactylTreeDataProvider) {
-		this.fsProvider = fsProvider
-		this.treeDataProvider = treeDataProvider
+	public constructor(deps: TreeDragAndDropControllerDependencies) {
+		this.fsProvider = deps.fsProvider
+		this.transferCommands = deps.transferCommands
+		this.log = deps.log
 	}
 
 	public handleDrag(source: readonly PterodactylTreeItem[], dataTransfer: vscode.DataTransfer): void {
-		dataTransfer.set("application/vnd.code.tree.pterodactyl-explorer", new vscode.DataTransferItem(source))
+		dataTransfer.set(TREE_MIME_TYPE, new vscode.DataTransferItem(source))
+		dataTransfer.set(URI_LIST_MIME_TYPE, new vscode.DataTransferItem(source.map(item => item.uri.toString()).join("\r\n")))
 	}
 
 	public async handleDrop(target: PterodactylTreeItem | undefined, dataTransfer: vscode.DataTransfer): Promise<void> {
-		const draggedItems = dataTransfer.get("application/vnd.code.tree.pterodactyl-explorer")?.value as readonly PterodactylTreeItem[] | undefined
-		if (!draggedItems) {
+		let targetUri = target?.uri ?? getServerFolders()[0]?.uri ?? vscode.Uri.parse(DEFAULT_ROOT_URI)
+		if (target?.isFile) {
+			targetUri = targetUri.with({path: targetUri.path.split("/").slice(0, -1).join("/") || "/"})
+		}
+
+		const draggedItems = dataTransfer.get(TREE_MIME_TYPE)?.value as readonly PterodactylTreeItem[] | undefined
+		if (draggedItems) {
+			await this.transfer(draggedItems.map(item => item.uri), targetUri)
+			return
+		}
+
+		const uriList = await dataTransfer.get(URI_LIST_MIME_TYPE)?.asString()
+		const uris = (uriList ?? "")
+			.split(/\r?\n/)
+			.map(line => line.trim())
+			.filter(line => line && !line.startsWith("#"))
+			.map(line => vscode.Uri.parse(line))
+		const remote = uris.filter(uri => uri.scheme === PTERODACTYL_SCHEME)
+		const local = uris.filter(uri => uri.scheme !== PTERODACTYL_SCHEME)
+		if (remote.length > 0) {
+			await this.transfer(remote, targetUri)
+		}
+		if (local.length > 0) {
+			await this.transferCommands.uploadLocal(local, targetUri)
+		}
+	}
+
+	private async transfer(uris: readonly vscode.Uri[], targetUri: vscode.Uri): Promise<void> {
+		const sources = uris.filter(uri => uri.path !== "/" && !isSameOrInside(targetUri, uri))
+		if (sources.length === 0) {
 			return
 		}
 
-		const targetUri = target && target.isFile === false ? target.uri : vscode.Uri.parse("pterodactyl:/")
+		const action = await this.pickAction(sources, targetUri)
+		if (!action) {
+			return
+		}
 
-		for (const item of draggedItems) {
-			if (item.isFile === false) {
+		const destinations = sources.map(source => vscode.Uri.joinPath(targetUri, source.path.split("/").pop() ?? ""))
+		const replaced = await this.transferCommands.confirmReplace(
+			targetUri,
+			destinations.filter((destination, index) => !isSameOrInside(sources[index], destination)).map(destination => destination.path.split("/").pop() ?? "")
+		)
+		if (!replaced) {
+			return
+		}
+
+		const title = `${action === "move" ? "Moving" : "Copying"} ${sources.length} item(s) to ${targetUri.path}`
+		const done: Transfer[] = []
+		await runServerTask(title, {
+			log: this.log,
+			onSettled: () => {
+				this.fsProvider.notifyChanges(done.flatMap(({from, to}) => [
+					...action === "move" ? [{type: vscode.FileChangeType.Deleted, uri: from}] : [],
+					{type: vscode.FileChangeType.Created, uri: to}
+				]))
+			}
+		}, async () => {
+			const transfers = sources.map((from, index) => ({from, to: destinations[index]}))
+			await (action === "move" ? this.move(transfers, replaced, done) : this.copy(transfers, replaced, done))
+		})
+	}
+
+	/**
+	 * Moves entries of the target's server with one batched rename, and others by
+	 * copying and deleting them. Entries that replace an existing one are moved one
+	 * by one, so the replaced entry is only dropped once its replacement is in place.
+	 * Adds each entry to `done` once it moved.
+	 */
+	private async move(transfers: Transfer[], replaced: Set<string>, done: Transfer[]): Promise<void> {
+		const renames: Transfer[] = []
+		for (const transfer of transfers) {
+			const {from, to} = transfer
+			if (from.toString() === to.toString()) {
 				continue
 			}
 
+			const overwrite = replaced.has(to.path.split("/").pop() ?? "")
+
+			if (from.authority !== to.authority) {
+				await this.fsProvider.copy(from, to, {overwrite})
+				await this.fsProvider.delete(from)
+				done.push(transfer)
+			} else if (overwrite) {
+				await this.fsProvider.rename(from, to, {overwrite})
+				done.push(transfer)
+			} else {
+				renames.push(transfer)
+			}
+		}
+		await this.fsProvider.renameMany(renames)
+		done.push(...renames)
+	}
+
+	private async copy(transfers: Transfer[], replaced: Set<string>, done: Transfer[]): Promise<void> {
+		for (const transfer of transfers) {
+			await this.fsProvider.copy(transfer.from, transfer.to, {overwrite: replaced.has(transfer.to.path.split("/").pop() ?? "")})
+			done.push(transfer)
+		}
+	}
+
+	/** Resolves the `dragAndDrop.action` setting, asking first when it is `ask` or the move is large. */
+	private async pickAction(sources: vscode.Uri[], targetUri: vscode.Uri): Promise<"move" | "copy" | undefined> {
+		const configured = vscode.workspace.getConfiguration("pterodactyl-vsc").get<string>("dragAndDrop.action") ?? "move"
+		let folders = 0
+		for (const source of sources) {
 			try {
-				const content = await this.fsProvider.readFile(item.uri)
-				const newUri = vscode.Uri.joinPath(targetUri, item.label)
-				await this.fsProvider.writeFile(newUri, content, {create: true, overwrite: true})
-				await this.fsProvider.delete(item.uri)
+				if ((await this.fsProvider.stat(source)).type & vscode.FileType.Directory) {
+					folders += 1
+				}
 			} catch (error) {
-				vscode.window.showErrorMessage(`Failed to move ${item.label}: ${String(error)}`)
+				this.log(`Failed to stat dropped item ${source.path}: ${String(error)}`)
 			}
 		}
 
-		this.treeDataProvider.refresh()
+		const isLarge = sources.length >= LARGE_MOVE_THRESHOLD || folders > 0
+		if (configured !== "ask" && !(configured === "move" && isLarge)) {
+			return configured === "copy" ? "copy" : "move"
+		}
+
+		const summary = [
+			folders > 0 ? `${folders} folder(s)` : "",
+			sources.length > folders ? `${sources.length - folders} file(s)` : ""
+		].filter(Boolean).join(" and ")
+		const message = configured === "ask" ? `Move or copy ${summary} to ${targetUri.path}?` : `Move ${summary} to ${targetUri.path}?`
+		const choice = await vscode.window.showWarningMessage(message, {modal: true}, "Move", "Copy")
+		if (choice === "Move") {
+			return "move"
+		}
+		return choice === "Copy" ? "copy" : void 0
 	}
 }
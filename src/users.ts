@@ -0,0 +1,196 @@
+import * as vscode from "vscode"
+
+import {requestClientApi, requestServerApiAt, runServerTask, type ServerTaskOptions} from "./api"
+import type {PterodactylApiClient} from "./client"
+import {formatDate} from "./format"
+import type {createLogger} from "./logger"
+import {getActiveServerUri, resolveConnection, type RuntimeState} from "./state"
+
+/** Granted automatically by the panel, so it is not offered in the picker. */
+const IMPLICIT_PERMISSION_GROUP = "websocket"
+
+interface SubuserAttributes {
+	uuid: string
+	username: string
+	email: string
+	"2fa_enabled": boolean
+	created_at: string
+	permissions: string[]
+}
+
+interface SubuserResponse {
+	attributes: SubuserAttributes
+}
+
+interface SubuserListResponse {
+	data: SubuserResponse[]
+}
+
+interface PermissionCatalogResponse {
+	attributes: {
+		permissions: Record<string, {
+			description: string
+			keys: Record<string, string>
+		}>
+	}
+}
+
+interface PermissionQuickPickItem extends vscode.QuickPickItem {
+	permission?: string
+}
+
+interface UserManagerDependencies {
+	state: RuntimeState
+	log: ReturnType<typeof createLogger>
+	client: PterodactylApiClient
+}
+
+export class SubuserTreeItem extends vscode.TreeItem {
+	public readonly serverUri: vscode.Uri
+
+	public constructor(public readonly user: SubuserAttributes, serverUri: vscode.Uri) {
+		super(user.username, vscode.TreeItemCollapsibleState.Collapsed)
+		this.serverUri = serverUri
+		this.id = `subuser-${serverUri.authority}-${user.uuid}`
+		this.contextValue = "subuser"
+		this.description = `${user.email} · ${user.permissions.length} permission(s)`
+		this.iconPath = new vscode.ThemeIcon(user["2fa_enabled"] ? "verified" : "account")
+		this.tooltip = [
+			user.username,
+			user.email,
+			`Two-factor authentication: ${user["2fa_enabled"] ? "enabled" : "disabled"}`,
+			`Added: ${formatDate(user.created_at)}`
+		].join("\n")
+	}
+}
+
+export class PermissionTreeItem extends vscode.TreeItem {
+	public constructor(permission: string, parent: SubuserTreeItem) {
+		super(permission, vscode.TreeItemCollapsibleState.None)
+		this.id = `${parent.id}-${permission}`
+		this.contextValue = "subuserPermission"
+		this.iconPath = new vscode.ThemeIcon("key")
+	}
+}
+
+type UserTreeNode = SubuserTreeItem | PermissionTreeItem
+
+export class UserManager implements vscode.TreeDataProvider<UserTreeNode> {
+	private readonly eventEmitter = new vscode.EventEmitter<UserTreeNode | undefined | null | void>()
+	private readonly state: RuntimeState
+	private readonly log: ReturnType<typeof createLogger>
+	private readonly taskOptions: ServerTaskOptions
+	private readonly client: PterodactylApiClient
+
+	public readonly onDidChangeTreeData = this.eventEmitter.event
+
+	public constructor(deps: UserManagerDependencies) {
+		this.state = deps.state
+		this.log = deps.log
+		this.client = deps.client
+		this.taskOptions = {
+			log: deps.log,
+			onSettled: () => {
+				this.refresh()
+			}
+		}
+	}
+
+	public getTreeItem(element: UserTreeNode): vscode.TreeItem {
+		return element
+	}
+
+	public async getChildren(element?: UserTreeNode): Promise<UserTreeNode[]> {
+		if (element) {
+			return element instanceof SubuserTreeItem ? [...element.user.permissions].sort().map(permission => new PermissionTreeItem(permission, element)) : []
+		}
+
+		const serverUri = getActiveServerUri()
+		const connection = resolveConnection(this.state, serverUri)
+		if (!connection.serverApiUrl || !connection.authHeader) {
+			return []
+		}
+
+		try {
+			const response = await requestServerApiAt(this.client, this.state, serverUri, "/users")
+			const json = await response.json() as SubuserListResponse
+			return json.data.map(user => new SubuserTreeItem(user.attributes, serverUri))
+		} catch (error) {
+			this.log(`Failed to list subusers: ${String(error)}`)
+			return []
+		}
+	}
+
+	public refresh(): void {
+		this.eventEmitter.fire()
+	}
+
+	public async inviteUser(serverUri: vscode.Uri = getActiveServerUri()): Promise<void> {
+		const email = await vscode.window.showInputBox({
+			prompt: "Email address of the user to invite",
+			placeHolder: "developer@example.com",
+			validateInput: (value: string): string | undefined => /^[^\s@]+@[^\s@]+\.[^\s@]+$/.test(value.trim()) ? void 0 : "Enter a valid email address"
+		})
+		if (!email) {
+			return
+		}
+
+		const permissions = await this.pickPermissions(serverUri, [], `Permissions for ${email.trim()}`)
+		if (!permissions) {
+			return
+		}
+
+		await runServerTask(`Inviting ${email.trim()}`, this.taskOptions, async () => {
+			await requestServerApiAt(this.client, this.state, serverUri, "/users", {method: "POST", body: {email: email.trim(), permissions}})
+		})
+	}
+
+	public async editPermissions(item: SubuserTreeItem): Promise<void> {
+		const permissions = await this.pickPermissions(item.serverUri, item.user.permissions, `Permissions for ${item.user.username}`)
+		if (!permissions) {
+			return
+		}
+
+		await runServerTask(`Updating permissions of ${item.user.username}`, this.taskOptions, async () => {
+			await requestServerApiAt(this.client, this.state, item.serverUri, `/users/${item.user.uuid}`, {method: "POST", body: {permissions}})
+		})
+	}
+
+	public async removeUser(item: SubuserTreeItem): Promise<void> {
+		const confirmation = await vscode.window.showWarningMessage(`Remove ${item.user.username} (${item.user.email}) from this server?`, {modal: true}, "Remove")
+		if (confirmation !== "Remove") {
+			return
+		}
+
+		await runServerTask(`Removing ${item.user.username}`, this.taskOptions, async () => {
+			await requestServerApiAt(this.client, this.state, item.serverUri, `/users/${item.user.uuid}`, {method: "DELETE"})
+		})
+	}
+
+	private async pickPermissions(serverUri: vscode.Uri, current: string[], title: string): Promise<string[] | undefined> {
+		let catalog: PermissionCatalogResponse
+		try {
+			const response = await requestClientApi(this.client, resolveConnection(this.state, serverUri), "/permissions")
+			catalog = await response.json() as PermissionCatalogResponse
+		} catch (error) {
+			void vscode.window.showErrorMessage(`Failed to load the permission catalog: ${error instanceof Error ? error.message : String(error)}`)
+			return void 0
+		}
+
+		const items: PermissionQuickPickItem[] = []
+		for (const [group, {description, keys}] of Object.entries(catalog.attributes.permissions)) {
+			if (group === IMPLICIT_PERMISSION_GROUP) {
+				continue
+			}
+
+			items.push({label: `${group} — ${description}`, kind: vscode.QuickPickItemKind.Separator})
+			for (const [key, keyDescription] of Object.entries(keys)) {
+				const permission = `${group}.${key}`
+				items.push({label: permission, detail: keyDescription, picked: current.includes(permission), permission})
+			}
+		}
+
+		const selection = await vscode.window.showQuickPick(items, {title, canPickMany: true, matchOnDetail: true, placeHolder: "Select the permissions to grant"})
+		return selection?.map(item => item.permission).filter((permission): permission is string => permission !== void 0)
+	}
+}
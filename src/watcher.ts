@@ -0,0 +1,283 @@
+import * as vscode from "vscode"
+
+import {isRateLimitError, type PterodactylFileAttributes, type PterodactylFileSystemProvider} from "./fsProvider"
+import type {createLogger} from "./logger"
+import {PTERODACTYL_SCHEME} from "./state"
+
+const DEFAULT_POLL_INTERVAL_SECONDS = 10
+const MAX_BACKOFF_MS = 5 * 60_000
+const MAX_DIRECTORIES_PER_POLL = 20
+
+interface WatchEntry {
+	uri: vscode.Uri
+	recursive: boolean
+	excludes: RegExp[]
+}
+
+interface SnapshotEntry {
+	mtime: string
+	size: number
+	isFile: boolean
+}
+
+type DirectorySnapshot = Map<string, SnapshotEntry>
+
+const parentPath = (path: string): string => path.split("/").slice(0, -1).join("/") || "/"
+
+const joinPath = (directory: string, name: string): string => directory === "/" ? `/${name}` : `${directory}/${name}`
+
+const isWithin = (path: string, root: string): boolean => root === "/" || path === root || path.startsWith(`${root}/`)
+
+export const globToRegExp = (pattern: string): RegExp => {
+	let source = ""
+	let braceDepth = 0
+	for (let index = 0; index < pattern.length; index += 1) {
+		const character = pattern[index]
+		if (character === "*" && pattern[index + 1] === "*" && pattern[index + 2] === "/") {
+			// `**/x` matches `x` in any directory, but not `old_x`.
+			source += "(?:.*/)?"
+			index += 2
+		} else if (character === "*" && pattern[index + 1] === "*") {
+			source += ".*"
+			index += 1
+		} else if (character === "*") {
+			source += "[^/]*"
+		} else if (character === "?") {
+			source += "[^/]"
+		} else if (character === "{") {
+			source += "(?:"
+			braceDepth += 1
+		} else if (character === "}" && braceDepth > 0) {
+			source += ")"
+			braceDepth -= 1
+		} else if (character === "," && braceDepth > 0) {
+			source += "|"
+		} else {
+			source += character.replace(/[$()+.[\]\\^{|}]/g, "\\$&")
+		}
+	}
+	return new RegExp(`^${source}$`)
+}
+
+/**
+ * Emulates file watching for the pterodactyl scheme by periodically listing the
+ * watched directories and diffing `modified_at`/`size` between snapshots.
+ */
+export class PollingFileWatcher implements vscode.Disposable {
+	private readonly fsProvider: PterodactylFileSystemProvider
+	private readonly log: ReturnType<typeof createLogger>
+	private readonly authority: string
+	private readonly watches = new Map<number, WatchEntry>()
+	private readonly snapshots = new Map<string, DirectorySnapshot>()
+	private nextWatchId = 0
+	private pollTimer: ReturnType<typeof globalThis.setTimeout> | undefined
+	private pollInFlight = false
+	private backoffMs = 0
+	/** Where the next poll continues in the subdirectories of recursive watches, when there are too many to poll at once. */
+	private subdirectoryCursor = 0
+
+	public constructor(fsProvider: PterodactylFileSystemProvider, log: ReturnType<typeof createLogger>, authority: string) {
+		this.fsProvider = fsProvider
+		this.log = log
+		this.authority = authority
+	}
+
+	public watch(uri: vscode.Uri, options: {readonly excludes: readonly string[], readonly recursive: boolean}): vscode.Disposable {
+		const watchId = this.nextWatchId
+		this.nextWatchId += 1
+		this.watches.set(watchId, {
+			uri,
+			recursive: options.recursive,
+			excludes: options.excludes.map(globToRegExp)
+		})
+		this.log(`watch: ${uri.path} (recursive: ${options.recursive})`)
+		this.schedule()
+
+		return {
+			dispose: (): void => {
+				this.watches.delete(watchId)
+				this.pruneSnapshots()
+				if (this.watches.size === 0 && this.pollTimer) {
+					globalThis.clearTimeout(this.pollTimer)
+					this.pollTimer = void 0
+				}
+			}
+		}
+	}
+
+	public dispose(): void {
+		if (this.pollTimer) {
+			globalThis.clearTimeout(this.pollTimer)
+		}
+		this.watches.clear()
+		this.snapshots.clear()
+	}
+
+	private getPollIntervalMs(): number {
+		const seconds = vscode.workspace.getConfiguration("pterodactyl-vsc").get<number>("watcher.pollIntervalSeconds") ?? DEFAULT_POLL_INTERVAL_SECONDS
+		return Math.max(2, seconds) * 1000
+	}
+
+	private schedule(): void {
+		if (this.pollTimer || this.pollInFlight || this.watches.size === 0) {
+			return
+		}
+
+		this.pollTimer = globalThis.setTimeout(() => {
+			this.pollTimer = void 0
+			this.pollInFlight = true
+			void this.poll().finally(() => {
+				this.pollInFlight = false
+				this.schedule()
+			})
+		}, this.getPollIntervalMs() + this.backoffMs)
+	}
+
+	/**
+	 * Returns the watched directories, and as many subdirectories of recursive
+	 * watches as fit in `MAX_DIRECTORIES_PER_POLL`, rotating through them so each
+	 * is polled in turn.
+	 */
+	private collectDirectories(): string[] {
+		const directories = new Set<string>()
+		const subdirectories = new Set<string>()
+		for (const entry of this.watches.values()) {
+			const parentSnapshot = this.snapshots.get(parentPath(entry.uri.path))
+			const watchedEntry = parentSnapshot?.get(entry.uri.path.split("/").pop() ?? "")
+			if (entry.uri.path !== "/" && (!watchedEntry || watchedEntry.isFile)) {
+				directories.add(parentPath(entry.uri.path))
+				continue
+			}
+
+			directories.add(entry.uri.path)
+
+			if (entry.recursive) {
+				for (const [directory, snapshot] of this.snapshots) {
+					if (!isWithin(directory, entry.uri.path)) {
+						continue
+					}
+					for (const [name, child] of snapshot) {
+						const childPath = joinPath(directory, name)
+						if (!child.isFile && !this.isExcluded(entry, childPath)) {
+							subdirectories.add(childPath)
+						}
+					}
+				}
+			}
+		}
+		const remaining = [...subdirectories].filter(directory => !directories.has(directory))
+		const slots = Math.max(0, MAX_DIRECTORIES_PER_POLL - directories.size)
+		if (remaining.length <= slots) {
+			this.subdirectoryCursor = 0
+			return [...directories, ...remaining]
+		}
+
+		const start = this.subdirectoryCursor % remaining.length
+		this.subdirectoryCursor = start + slots
+		return [...directories, ...[...remaining, ...remaining].slice(start, start + slots)]
+	}
+
+	private async poll(): Promise<void> {
+		const events: vscode.FileChangeEvent[] = []
+		let rateLimited = false
+		for (const directory of this.collectDirectories()) {
+			try {
+				const files = await this.fsProvider.listDirectory(this.toUri(directory), true)
+				events.push(...this.diffDirectory(directory, files))
+			} catch (error) {
+				if (isRateLimitError(error)) {
+					this.backoffMs = Math.min(MAX_BACKOFF_MS, Math.max(this.getPollIntervalMs(), this.backoffMs * 2))
+					this.log(`watch: Rate limited, backing off for ${this.backoffMs}ms`)
+					rateLimited = true
+					break
+				}
+				if (error instanceof vscode.FileSystemError && error.code === "FileNotFound" && this.snapshots.has(directory)) {
+					this.dropSnapshots(directory)
+					events.push({type: vscode.FileChangeType.Deleted, uri: this.toUri(directory)})
+				}
+			}
+		}
+
+		if (!rateLimited) {
+			this.backoffMs = Math.floor(this.backoffMs / 2)
+		}
+
+		const filtered = events.filter(event => this.isReported(event.uri.path))
+		if (filtered.length > 0) {
+			this.log(`watch: ${filtered.length} change(s) detected`)
+			this.fsProvider.notifyChanges(filtered)
+		}
+	}
+
+	private diffDirectory(directory: string, files: PterodactylFileAttributes[]): vscode.FileChangeEvent[] {
+		const next: DirectorySnapshot = new Map(files.map(file => [file.name, {mtime: file.modified_at, size: file.size, isFile: file.is_file}]))
+		const previous = this.snapshots.get(directory)
+		this.snapshots.set(directory, next)
+		if (!previous) {
+			return []
+		}
+
+		const events: vscode.FileChangeEvent[] = []
+		const toUri = (name: string): vscode.Uri => this.toUri(joinPath(directory, name))
+		for (const [name, entry] of next) {
+			const old = previous.get(name)
+			if (!old) {
+				events.push({type: vscode.FileChangeType.Created, uri: toUri(name)})
+			} else if (old.mtime !== entry.mtime || old.size !== entry.size) {
+				events.push({type: vscode.FileChangeType.Changed, uri: toUri(name)})
+			}
+		}
+		for (const [name, entry] of previous) {
+			if (!next.has(name)) {
+				if (!entry.isFile) {
+					this.dropSnapshots(joinPath(directory, name))
+				}
+				events.push({type: vscode.FileChangeType.Deleted, uri: toUri(name)})
+			}
+		}
+		return events
+	}
+
+	private toUri(path: string): vscode.Uri {
+		return vscode.Uri.from({scheme: PTERODACTYL_SCHEME, authority: this.authority, path})
+	}
+
+	private isReported(path: string): boolean {
+		for (const entry of this.watches.values()) {
+			const root = entry.uri.path
+			const inScope = path === root || (entry.recursive ? isWithin(path, root) : parentPath(path) === root)
+			if (!inScope) {
+				continue
+			}
+
+			if (!this.isExcluded(entry, path)) {
+				return true
+			}
+		}
+		return false
+	}
+
+	private isExcluded(entry: WatchEntry, path: string): boolean {
+		const relativePath = entry.uri.path === "/" ? path.slice(1) : path.slice(entry.uri.path.length + 1)
+		return entry.excludes.some(exclude => exclude.test(relativePath) || exclude.test(path))
+	}
+
+	private dropSnapshots(root: string): void {
+		for (const directory of this.snapshots.keys()) {
+			if (isWithin(directory, root)) {
+				this.snapshots.delete(directory)
+			}
+		}
+	}
+
+	private pruneSnapshots(): void {
+		for (const directory of this.snapshots.keys()) {
+			const stillWatched = [...this.watches.values()].some(entry => {
+				return directory === parentPath(entry.uri.path) || (entry.recursive ? isWithin(directory, entry.uri.path) : directory === entry.uri.path)
+			})
+			if (!stillWatched) {
+				this.snapshots.delete(directory)
+			}
+		}
+	}
+}
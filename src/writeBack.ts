@@ -0,0 +1,314 @@
+import * as vscode from "vscode"
+
+import {runServerTask} from "./api"
+import {formatBytes} from "./format"
+import type {PterodactylFileSystemProvider} from "./fsProvider"
+import type {createLogger} from "./logger"
+
+const DEFAULT_CACHE_MEGABYTES = 64
+
+export interface PendingUpload {
+	id: string
+	uri: string
+	size: number
+	queuedAt: number
+	lastError?: string
+	/** Set when the upload found the file changed on the server; the write waits for the user to overwrite or discard it. */
+	conflicted?: boolean
+}
+
+interface CacheEntry {
+	uri: string
+	mtime: number
+	size: number
+	key: string
+}
+
+interface WriteBackStoreDependencies {
+	storageUri: vscode.Uri
+	log: ReturnType<typeof createLogger>
+}
+
+/** SHA-256 of `value` in hex, used to derive cache file names from URIs. */
+const hashKey = async (value: string): Promise<string> => {
+	const digest = await globalThis.crypto.subtle.digest("SHA-256", new globalThis.TextEncoder().encode(value))
+	return [...new Uint8Array(digest)].map(byte => byte.toString(16).padStart(2, "0")).join("")
+}
+
+/**
+ * Persists the write-back queue and the read cache below the extension storage.
+ * Queued writes live in `writeBack/pending`, listed in order by `queue.json`;
+ * cached file contents live in `writeBack/cache`, keyed by URI and `mtime`.
+ */
+export class WriteBackStore implements vscode.Disposable {
+	private readonly changeEmitter = new vscode.EventEmitter<void>()
+	private readonly log: ReturnType<typeof createLogger>
+	private readonly pendingRoot: vscode.Uri
+	private readonly cacheRoot: vscode.Uri
+	private readonly cacheIndex = new Map<string, CacheEntry>()
+	private pending: PendingUpload[] = []
+	private nextId = 0
+	private persistQueue: Promise<void> = Promise.resolve()
+
+	public readonly onDidChange = this.changeEmitter.event
+
+	public constructor(deps: WriteBackStoreDependencies) {
+		this.log = deps.log
+		this.pendingRoot = vscode.Uri.joinPath(deps.storageUri, "writeBack", "pending")
+		this.cacheRoot = vscode.Uri.joinPath(deps.storageUri, "writeBack", "cache")
+	}
+
+	public isEnabled(): boolean {
+		return vscode.workspace.getConfiguration("pterodactyl-vsc").get<boolean>("writeBack.enabled") ?? false
+	}
+
+	public async initialize(): Promise<void> {
+		await vscode.workspace.fs.createDirectory(this.pendingRoot)
+		await vscode.workspace.fs.createDirectory(this.cacheRoot)
+		this.pending = await this.readJson<PendingUpload[]>(vscode.Uri.joinPath(this.pendingRoot, "queue.json")) ?? []
+		for (const entry of await this.readJson<CacheEntry[]>(vscode.Uri.joinPath(this.cacheRoot, "index.json")) ?? []) {
+			this.cacheIndex.set(entry.uri, entry)
+		}
+		if (this.pending.length > 0) {
+			this.log(`writeBack: ${this.pending.length} pending upload(s) restored`)
+			this.changeEmitter.fire()
+		}
+	}
+
+	public getPending(): readonly PendingUpload[] {
+		return this.pending
+	}
+
+	public findPending(uri: vscode.Uri): PendingUpload | undefined {
+		return this.pending.find(item => item.uri === uri.toString())
+	}
+
+	public async readPending(item: PendingUpload): Promise<Uint8Array> {
+		return vscode.workspace.fs.readFile(vscode.Uri.joinPath(this.pendingRoot, item.id))
+	}
+
+	/** Queues `content` for `uri`, replacing an older queued write of the same file. */
+	public async enqueue(uri: vscode.Uri, content: Uint8Array, reason: string): Promise<PendingUpload> {
+		const previous = this.findPending(uri)
+		this.nextId += 1
+		const item: PendingUpload = {
+			id: `${Date.now().toString(36)}-${this.nextId}`,
+			uri: uri.toString(),
+			size: content.byteLength,
+			queuedAt: Date.now(),
+			lastError: reason
+		}
+
+		await vscode.workspace.fs.writeFile(vscode.Uri.joinPath(this.pendingRoot, item.id), content)
+		this.pending = [...this.pending.filter(candidate => candidate !== previous), item]
+		await this.persistPending()
+		if (previous) {
+			await this.deleteFile(vscode.Uri.joinPath(this.pendingRoot, previous.id))
+		}
+		this.log(`writeBack: Queued ${uri.path} (${content.byteLength} bytes): ${reason}`)
+		this.changeEmitter.fire()
+		return item
+	}
+
+	public async remove(item: PendingUpload): Promise<void> {
+		this.pending = this.pending.filter(candidate => candidate.id !== item.id)
+		await this.persistPending()
+		await this.deleteFile(vscode.Uri.joinPath(this.pendingRoot, item.id))
+		this.changeEmitter.fire()
+	}
+
+	public async markFailed(item: PendingUpload, error: string, conflicted = false): Promise<void> {
+		item.lastError = error
+		item.conflicted = conflicted || void 0
+		await this.persistPending()
+		this.changeEmitter.fire()
+	}
+
+	/** Returns the cached content of `uri`, as long as it was cached for `mtime`. */
+	public async getCached(uri: vscode.Uri, mtime?: number): Promise<Uint8Array | undefined> {
+		const entry = this.cacheIndex.get(uri.toString())
+		if (!entry || (mtime !== void 0 && entry.mtime !== mtime)) {
+			return void 0
+		}
+
+		try {
+			const content = await vscode.workspace.fs.readFile(vscode.Uri.joinPath(this.cacheRoot, entry.key))
+			this.cacheIndex.delete(entry.uri)
+			this.cacheIndex.set(entry.uri, entry)
+			return content
+		} catch (error) {
+			this.log(`writeBack: Cached copy of ${uri.path} is unreadable: ${String(error)}`)
+			this.cacheIndex.delete(entry.uri)
+			return void 0
+		}
+	}
+
+	public async cache(uri: vscode.Uri, mtime: number, content: Uint8Array): Promise<void> {
+		const limit = (vscode.workspace.getConfiguration("pterodactyl-vsc").get<number>("writeBack.cacheMegabytes") ?? DEFAULT_CACHE_MEGABYTES) * 1024 * 1024
+		if (content.byteLength > limit / 4) {
+			return
+		}
+
+		const entry: CacheEntry = {uri: uri.toString(), mtime, size: content.byteLength, key: await hashKey(uri.toString())}
+		await vscode.workspace.fs.writeFile(vscode.Uri.joinPath(this.cacheRoot, entry.key), content)
+		this.cacheIndex.delete(entry.uri)
+		this.cacheIndex.set(entry.uri, entry)
+
+		let total = 0
+		for (const cached of this.cacheIndex.values()) {
+			total += cached.size
+		}
+		for (const cached of this.cacheIndex.values()) {
+			if (total <= limit) {
+				break
+			}
+			this.cacheIndex.delete(cached.uri)
+			total -= cached.size
+			await this.deleteFile(vscode.Uri.joinPath(this.cacheRoot, cached.key))
+		}
+		await this.persist(vscode.Uri.joinPath(this.cacheRoot, "index.json"), [...this.cacheIndex.values()])
+	}
+
+	public dispose(): void {
+		this.changeEmitter.dispose()
+	}
+
+	private persistPending(): Promise<void> {
+		return this.persist(vscode.Uri.joinPath(this.pendingRoot, "queue.json"), this.pending)
+	}
+
+	/** Serializes index writes, so an older snapshot never overwrites a newer one. */
+	private persist(uri: vscode.Uri, value: unknown): Promise<void> {
+		const content = new globalThis.TextEncoder().encode(JSON.stringify(value))
+		this.persistQueue = this.persistQueue
+			.then(() => vscode.workspace.fs.writeFile(uri, content))
+			.catch(error => {
+				this.log(`writeBack: Failed to persist ${uri.path}: ${String(error)}`)
+			})
+		return this.persistQueue
+	}
+
+	private async readJson<T>(uri: vscode.Uri): Promise<T | undefined> {
+		try {
+			return JSON.parse(new globalThis.TextDecoder().decode(await vscode.workspace.fs.readFile(uri))) as T
+		} catch {
+			return void 0
+		}
+	}
+
+	private async deleteFile(uri: vscode.Uri): Promise<void> {
+		try {
+			await vscode.workspace.fs.delete(uri)
+		} catch {}
+	}
+}
+
+interface PendingUploadsViewDependencies {
+	store: WriteBackStore
+	fsProvider: PterodactylFileSystemProvider
+	log: ReturnType<typeof createLogger>
+}
+
+export class PendingUploadTreeItem extends vscode.TreeItem {
+	public constructor(public readonly upload: PendingUpload) {
+		const uri = vscode.Uri.parse(upload.uri)
+		super(uri.path.split("/").pop() ?? uri.path, vscode.TreeItemCollapsibleState.None)
+		this.id = `pendingUpload-${upload.id}`
+		this.resourceUri = uri
+		this.contextValue = "pendingUpload"
+		this.description = `${uri.path} · ${formatBytes(upload.size)}${upload.conflicted ? " · conflict" : ""}`
+		this.iconPath = new vscode.ThemeIcon(upload.conflicted ? "warning" : "cloud-upload")
+		this.tooltip = [
+			uri.path,
+			`Queued: ${new Date(upload.queuedAt).toLocaleString()}`,
+			upload.lastError ? `Last error: ${upload.lastError}` : ""
+		].filter(Boolean).join("\n")
+		this.command = {command: "vscode.open", title: "Open File", arguments: [uri]}
+	}
+}
+
+/**
+ * Lists the queued writes in upload order, with a badge on the view and in the
+ * status bar while any are waiting.
+ */
+export class PendingUploadsView implements vscode.TreeDataProvider<PendingUploadTreeItem>, vscode.Disposable {
+	private readonly eventEmitter = new vscode.EventEmitter<PendingUploadTreeItem | undefined | null | void>()
+	private readonly store: WriteBackStore
+	private readonly fsProvider: PterodactylFileSystemProvider
+	private readonly log: ReturnType<typeof createLogger>
+	private readonly statusBarItem: vscode.StatusBarItem
+	private readonly subscription: vscode.Disposable
+	private view: vscode.TreeView<PendingUploadTreeItem> | undefined
+
+	public readonly onDidChangeTreeData = this.eventEmitter.event
+
+	public constructor(deps: PendingUploadsViewDependencies) {
+		this.store = deps.store
+		this.fsProvider = deps.fsProvider
+		this.log = deps.log
+		this.statusBarItem = vscode.window.createStatusBarItem(vscode.StatusBarAlignment.Left, 98)
+		this.statusBarItem.command = "pterodactyl-pendingUploads.focus"
+		this.subscription = this.store.onDidChange(() => {
+			this.refresh()
+		})
+		this.updateBadges()
+	}
+
+	public setView(view: vscode.TreeView<PendingUploadTreeItem>): void {
+		this.view = view
+		this.updateBadges()
+	}
+
+	public getTreeItem(element: PendingUploadTreeItem): vscode.TreeItem {
+		return element
+	}
+
+	public getChildren(element?: PendingUploadTreeItem): PendingUploadTreeItem[] {
+		return element ? [] : this.store.getPending().map(upload => new PendingUploadTreeItem(upload))
+	}
+
+	public refresh(): void {
+		this.updateBadges()
+		this.eventEmitter.fire()
+	}
+
+	/** Uploads the given queued write, or the whole queue in order. */
+	public async retry(item?: PendingUploadTreeItem): Promise<void> {
+		const title = item ? `Uploading ${item.upload.uri.split("/").pop() ?? item.upload.uri}` : "Uploading pending changes"
+		await runServerTask(title, {log: this.log}, async () => {
+			await (item ? this.fsProvider.retryPendingWrite(vscode.Uri.parse(item.upload.uri)) : this.fsProvider.replayPendingWrites())
+		})
+	}
+
+	public async discard(item: PendingUploadTreeItem): Promise<void> {
+		const path = vscode.Uri.parse(item.upload.uri).path
+		const confirmation = await vscode.window.showWarningMessage(`Discard the queued changes to ${path}? They have not been uploaded and will be lost.`, {modal: true}, "Discard")
+		if (confirmation !== "Discard") {
+			return
+		}
+
+		await this.fsProvider.discardPendingWrite(vscode.Uri.parse(item.upload.uri))
+	}
+
+	public dispose(): void {
+		this.subscription.dispose()
+		this.statusBarItem.dispose()
+		this.eventEmitter.dispose()
+	}
+
+	private updateBadges(): void {
+		const count = this.store.getPending().length
+		const tooltip = `${count} change(s) waiting to be uploaded`
+		void vscode.commands.executeCommand("setContext", "pterodactyl-hasPendingUploads", count > 0)
+		if (this.view) {
+			this.view.badge = count > 0 ? {value: count, tooltip} : void 0
+		}
+		if (count > 0) {
+			this.statusBarItem.text = `$(cloud-upload) ${count}`
+			this.statusBarItem.tooltip = `${tooltip}\nClick to show pending uploads`
+			this.statusBarItem.show()
+		} else {
+			this.statusBarItem.hide()
+		}
+	}
+}
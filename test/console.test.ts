@@ -0,0 +1,94 @@
+import * as assert from "node:assert/strict"
+import type {AddressInfo} from "node:net"
+import {after, before, test} from "node:test"
+
+import {WebSocketServer, type WebSocket} from "ws"
+
+import type {PterodactylApiClient} from "../src/client"
+import {ServerConsoleConnection} from "../src/console"
+
+const PANEL_URL = "https://panel.example.com"
+
+interface ReceivedMessage {
+	event: string
+	args: unknown[]
+}
+
+let server: WebSocketServer
+let socketUrl: string
+const origins: string[] = []
+const received: ReceivedMessage[] = []
+let tokenRequests = 0
+
+const send = (socket: WebSocket, event: string, ...args: unknown[]): void => {
+	socket.send(JSON.stringify({event, args}))
+}
+
+/** Answers the panel's websocket credentials endpoint with a new token each time. */
+const client = {
+	request: async (url: string): Promise<Response> => {
+		assert.equal(url, `${PANEL_URL}/api/client/servers/abc123/websocket`)
+		tokenRequests += 1
+		return new Response(JSON.stringify({data: {token: `token-${tokenRequests}`, socket: socketUrl}}), {status: 200})
+	}
+} as unknown as PterodactylApiClient
+
+const waitFor = async (condition: () => boolean): Promise<void> => {
+	const deadline = Date.now() + 2000
+	while (!condition()) {
+		assert.ok(Date.now() < deadline, "timed out waiting for the console")
+		await new Promise(resolve => setTimeout(resolve, 10))
+	}
+}
+
+before(async () => {
+	server = new WebSocketServer({port: 0, host: "127.0.0.1"})
+	await new Promise(resolve => server.once("listening", resolve))
+	socketUrl = `ws://127.0.0.1:${(server.address() as AddressInfo).port}`
+	server.on("connection", (socket, request) => {
+		origins.push(request.headers.origin ?? "")
+		socket.on("message", data => {
+			const message = JSON.parse(String(data)) as ReceivedMessage
+			received.push(message)
+			if (message.event === "auth") {
+				send(socket, "auth success")
+				if (message.args[0] === "token-1") {
+					send(socket, "token expiring")
+				}
+			} else if (message.event === "send logs") {
+				send(socket, "console output", "Server started")
+			} else if (message.event === "send command") {
+				send(socket, "console output", `> ${String(message.args[0])}`)
+			}
+		})
+	})
+})
+
+after(async () => {
+	await new Promise(resolve => server.close(resolve))
+})
+
+test("streams console output, sends commands and re-authenticates", async () => {
+	const connection = new ServerConsoleConnection({
+		connection: {serverApiUrl: `${PANEL_URL}/api/client/servers/abc123/files`, authHeader: "Bearer key"},
+		log: (): void => {},
+		client
+	})
+	const output: string[] = []
+	connection.onDidOutput(line => {
+		output.push(line)
+	})
+
+	await connection.connect()
+	await waitFor(() => output.includes("Server started") && received.filter(message => message.event === "auth").length === 2)
+
+	connection.sendCommand("say hi")
+	await waitFor(() => output.includes("> say hi"))
+	connection.dispose()
+
+	assert.deepEqual(origins, [PANEL_URL])
+	assert.deepEqual(received.filter(message => message.event === "auth").map(message => message.args[0]), ["token-1", "token-2"])
+	assert.equal(received.filter(message => message.event === "send logs").length, origins.length)
+	assert.equal(output.filter(line => line === "Server started").length, 1)
+	assert.ok(received.some(message => message.event === "send command" && message.args[0] === "say hi"))
+})
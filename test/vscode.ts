@@ -0,0 +1,37 @@
+// Minimal stand-in for the `vscode` module, covering what the console connection uses outside the editor.
+
+export class Disposable {
+	public constructor(private readonly callOnDispose: () => void) {}
+
+	public dispose(): void {
+		this.callOnDispose()
+	}
+}
+
+export class EventEmitter<T> {
+	private listeners: Array<(value: T) => void> = []
+
+	public readonly event = (listener: (value: T) => void): Disposable => {
+		this.listeners.push(listener)
+		return new Disposable(() => {
+			this.listeners = this.listeners.filter(candidate => candidate !== listener)
+		})
+	}
+
+	public fire(value: T): void {
+		for (const listener of this.listeners) {
+			listener(value)
+		}
+	}
+
+	public dispose(): void {
+		this.listeners = []
+	}
+}
+
+export const Uri = {
+	parse: (value: string): {scheme: string, authority: string, path: string} => {
+		const url = new URL(value)
+		return {scheme: url.protocol.replace(/:$/, ""), authority: url.host, path: url.pathname}
+	}
+}